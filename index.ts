@@ -4,11 +4,14 @@ export {
 
 export {
   authorizeAntigravity,
-  exchangeAntigravity
+  exchangeAntigravity,
+  startAntigravityDeviceAuthorization,
+  pollAntigravityDeviceAuthorization
 } from "./src/antigravity/oauth";
 
 export type {
   AntigravityAuthorization,
+  AntigravityDeviceAuthorization,
   AntigravityTokenExchangeResult
 } from "./src/antigravity/oauth";
 
@@ -1,5 +1,17 @@
 import { describe, it, expect, mock, beforeEach, afterEach } from "bun:test";
-import { fetchAccountInfo } from "./oauth";
+import * as constants from "../constants";
+import {
+  authorizeAntigravity,
+  exchangeAntigravity,
+  fetchAccountInfo,
+  hasPendingAuthorization,
+  parseOAuthCallback,
+  pollAntigravityDeviceAuthorization,
+  type AntigravityDeviceAuthorization,
+} from "./oauth";
+
+// Token requests need a client secret, which is normally read from the environment.
+mock.module("../constants", () => ({ ...constants, ANTIGRAVITY_CLIENT_SECRET: "test-client-secret" }));
 
 const mockFetch = mock(() => Promise.resolve(new Response()));
 
@@ -141,3 +153,111 @@ describe("fetchAccountInfo tier detection", () => {
     expect(freeResult.tier).toBe("free");
   });
 });
+
+describe("device authorization polling", () => {
+  const authorization: AntigravityDeviceAuthorization = {
+    deviceCode: "device-code",
+    userCode: "ABCD-EFGH",
+    verificationUrl: "https://www.google.com/device",
+    expiresAt: Date.now() + 600000,
+    intervalMs: 5000,
+    projectId: "",
+  };
+
+  function tokenError(error: string, status = 428): Response {
+    return new Response(JSON.stringify({ error }), { status });
+  }
+
+  it("should keep polling while pending and back off on slow_down", async () => {
+    const tokenResponses = [
+      tokenError("authorization_pending"),
+      tokenError("slow_down", 403),
+      new Response(JSON.stringify({ access_token: "access", expires_in: 3600, refresh_token: "refresh" }), { status: 200 }),
+    ];
+    mockFetch.mockImplementation(((url: string) => {
+      if (url.includes("oauth2.googleapis.com/token")) {
+        return Promise.resolve(tokenResponses.shift()!);
+      }
+      if (url.includes("userinfo")) {
+        return Promise.resolve(new Response(JSON.stringify({ email: "device@example.com" }), { status: 200 }));
+      }
+      return Promise.resolve(
+        new Response(JSON.stringify({ cloudaicompanionProject: "device-project" }), { status: 200 }),
+      );
+    }) as any);
+
+    const delays: number[] = [];
+    const result = await pollAntigravityDeviceAuthorization(authorization, {
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+
+    expect(delays).toEqual([5000, 5000, 10000]);
+    expect(result.type).toBe("success");
+    if (result.type === "success") {
+      expect(result.refresh).toBe("refresh|device-project");
+      expect(result.email).toBe("device@example.com");
+    }
+  });
+
+  it("should fail when the user denies access", async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(tokenError("access_denied", 403)));
+
+    const result = await pollAntigravityDeviceAuthorization(authorization, { sleep: async () => {} });
+
+    expect(result.type).toBe("failed");
+    if (result.type === "failed") {
+      expect(result.error).toContain("denied");
+    }
+  });
+});
+
+describe("OAuth state validation", () => {
+  it("should accept the state issued by authorizeAntigravity", async () => {
+    const authorization = await authorizeAntigravity();
+    const authUrl = new URL(authorization.url);
+
+    expect(authUrl.searchParams.get("state")).toBe(authorization.state);
+    expect(authorization.url).not.toContain(authorization.verifier);
+
+    const callback = parseOAuthCallback(
+      new URL(`http://localhost/oauth-callback?code=auth-code&state=${authorization.state}`),
+    );
+    expect(callback).toEqual({ type: "success", code: "auth-code", state: authorization.state });
+  });
+
+  it("should reject an unknown state", () => {
+    const callback = parseOAuthCallback(new URL("http://localhost/oauth-callback?code=auth-code&state=forged"));
+    expect(callback.type).toBe("failed");
+    if (callback.type === "failed") {
+      expect(callback.code).toBe("invalid_state");
+    }
+  });
+
+  it("should surface denied consent as a typed failure", async () => {
+    const authorization = await authorizeAntigravity();
+    const callback = parseOAuthCallback(
+      new URL(`http://localhost/oauth-callback?error=access_denied&state=${authorization.state}`),
+    );
+
+    expect(callback.type).toBe("failed");
+    if (callback.type === "failed") {
+      expect(callback.code).toBe("access_denied");
+    }
+    expect(hasPendingAuthorization(authorization.state)).toBe(false);
+  });
+
+  it("should reject a replayed state after the code was exchanged", async () => {
+    mockFetch.mockImplementation(() => Promise.resolve(new Response("{}", { status: 400 })));
+    const authorization = await authorizeAntigravity();
+
+    await exchangeAntigravity("auth-code", authorization.state);
+    const replay = await exchangeAntigravity("auth-code", authorization.state);
+
+    expect(replay.type).toBe("failed");
+    if (replay.type === "failed") {
+      expect(replay.code).toBe("invalid_state");
+    }
+  });
+});
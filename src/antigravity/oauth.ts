@@ -14,15 +14,18 @@ interface PkcePair {
   verifier: string;
 }
 
-interface AntigravityAuthState {
+interface PendingAuthorization {
   verifier: string;
   projectId: string;
+  redirectUri: string;
+  expiresAt: number;
 }
 
 export interface AntigravityAuthorization {
   url: string;
   verifier: string;
   projectId: string;
+  state: string;
 }
 
 interface AntigravityTokenExchangeSuccess {
@@ -38,6 +41,18 @@ interface AntigravityTokenExchangeSuccess {
 interface AntigravityTokenExchangeFailure {
   type: "failed";
   error: string;
+  /**
+   * OAuth error code when known, e.g. `access_denied` from the consent screen,
+   * or the plugin's own `invalid_state` / `missing_code` callback checks.
+   */
+  code?: string;
+  description?: string;
+}
+
+interface AntigravityCallbackParams {
+  type: "success";
+  code: string;
+  state: string;
 }
 
 export type AntigravityTokenExchangeResult =
@@ -54,6 +69,37 @@ interface AntigravityUserInfo {
   email?: string;
 }
 
+export interface AntigravityDeviceAuthorization {
+  deviceCode: string;
+  userCode: string;
+  verificationUrl: string;
+  expiresAt: number;
+  intervalMs: number;
+  projectId: string;
+}
+
+interface DeviceCodeResponse {
+  device_code: string;
+  user_code: string;
+  verification_url?: string;
+  verification_uri?: string;
+  expires_in: number;
+  interval?: number;
+}
+
+interface DevicePollOptions {
+  signal?: AbortSignal;
+  /**
+   * Delay implementation used between polls; overridable for tests.
+   */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+const DEVICE_CODE_URL = "https://oauth2.googleapis.com/device/code";
+const DEVICE_CODE_GRANT_TYPE = "urn:ietf:params:oauth:grant-type:device_code";
+const DEVICE_DEFAULT_INTERVAL_MS = 5000;
+const DEVICE_SLOW_DOWN_INCREMENT_MS = 5000;
+
 function base64UrlEncode(buffer: Buffer): string {
   return buffer
     .toString("base64")
@@ -68,22 +114,80 @@ function generatePKCE(): PkcePair {
   return { verifier, challenge };
 }
 
-function encodeState(payload: AntigravityAuthState): string {
-  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+const AUTHORIZATION_STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Authorization requests awaiting their callback, keyed by the random `state` nonce.
+ * The PKCE verifier never leaves the process; entries are consumed on exchange so a
+ * replayed callback is rejected.
+ */
+const pendingAuthorizations = new Map<string, PendingAuthorization>();
+
+function prunePendingAuthorizations(): void {
+  const now = Date.now();
+  for (const [state, pending] of pendingAuthorizations) {
+    if (pending.expiresAt <= now) {
+      pendingAuthorizations.delete(state);
+    }
+  }
+}
+
+/**
+ * Returns true when `state` belongs to an authorization request that is still waiting for its callback.
+ */
+export function hasPendingAuthorization(state: string | null | undefined): boolean {
+  if (!state) {
+    return false;
+  }
+  prunePendingAuthorizations();
+  return pendingAuthorizations.has(state);
 }
 
-function decodeState(state: string): AntigravityAuthState {
-  const normalized = state.replace(/-/g, "+").replace(/_/g, "/");
-  const padded = normalized.padEnd(normalized.length + ((4 - normalized.length % 4) % 4), "=");
-  const json = Buffer.from(padded, "base64").toString("utf8");
-  const parsed = JSON.parse(json);
-  if (typeof parsed.verifier !== "string") {
-    throw new Error("Missing PKCE verifier in state");
+function consumePendingAuthorization(state: string): PendingAuthorization | null {
+  prunePendingAuthorizations();
+  const pending = pendingAuthorizations.get(state);
+  if (!pending) {
+    return null;
   }
-  return {
-    verifier: parsed.verifier,
-    projectId: typeof parsed.projectId === "string" ? parsed.projectId : "",
-  };
+  pendingAuthorizations.delete(state);
+  return pending;
+}
+
+/**
+ * Validates the query parameters of an OAuth redirect. Returns the authorization code, or a typed
+ * failure carrying Google's `error`/`error_description` or the plugin's own state checks.
+ */
+export function parseOAuthCallback(url: URL): AntigravityCallbackParams | AntigravityTokenExchangeFailure {
+  const state = url.searchParams.get("state");
+  if (!hasPendingAuthorization(state)) {
+    return {
+      type: "failed",
+      code: "invalid_state",
+      error: "OAuth state is missing, unknown or already used. Restart the login.",
+    };
+  }
+
+  const oauthError = url.searchParams.get("error");
+  if (oauthError) {
+    const description = url.searchParams.get("error_description") ?? undefined;
+    consumePendingAuthorization(state!);
+    return {
+      type: "failed",
+      code: oauthError,
+      description,
+      error: oauthError === "access_denied"
+        ? "Access denied: consent was not granted"
+        : `${oauthError}${description ? `: ${description}` : ""}`,
+    };
+  }
+
+  const code = url.searchParams.get("code");
+  if (!code) {
+    consumePendingAuthorization(state!);
+    return { type: "failed", code: "missing_code", error: "Missing authorization code in callback URL" };
+  }
+
+  return { type: "success", code, state: state! };
 }
 
 /**
@@ -177,20 +281,100 @@ export async function fetchAccountInfo(accessToken: string): Promise<{ projectId
   return { projectId: "", tier: detectedTier };
 }
 
-export async function authorizeAntigravity(projectId = ""): Promise<AntigravityAuthorization> {
+/**
+ * Looks up the Google account email for an access token. Returns undefined when userinfo is unavailable.
+ */
+export async function fetchUserEmail(accessToken: string): Promise<string | undefined> {
+  const userInfoResponse = await fetch(
+    "https://www.googleapis.com/oauth2/v1/userinfo?alt=json",
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    },
+  );
+
+  const userInfo = userInfoResponse.ok
+    ? ((await userInfoResponse.json()) as AntigravityUserInfo)
+    : {};
+  return userInfo.email;
+}
+
+function parseTokenErrorCode(text: string): { code?: string; description?: string } {
+  try {
+    const parsed = JSON.parse(text) as { error?: unknown; error_description?: unknown };
+    return {
+      code: typeof parsed.error === "string" ? parsed.error : undefined,
+      description: typeof parsed.error_description === "string" ? parsed.error_description : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Turns a token endpoint payload into a stored account: looks up the user's email and
+ * discovers project and tier via fetchAccountInfo.
+ */
+async function completeTokenExchange(
+  tokenPayload: AntigravityTokenResponse,
+  projectId: string,
+): Promise<AntigravityTokenExchangeResult> {
+  const email = await fetchUserEmail(tokenPayload.access_token);
+
+  const refreshToken = tokenPayload.refresh_token;
+  if (!refreshToken) {
+    return { type: "failed", error: "Missing refresh token in response" };
+  }
+
+  // Auto-discover project ID and tier if not provided, or fetch tier if project ID is provided
+  let effectiveProjectId = projectId;
+
+  const accountInfo = await fetchAccountInfo(tokenPayload.access_token);
+  if (!effectiveProjectId) {
+    effectiveProjectId = accountInfo.projectId;
+  }
+  const tier = accountInfo.tier;
+
+  // Don't embed email in refresh token - we store it separately in accounts.json
+  const storedRefresh = `${refreshToken}|${effectiveProjectId || ""}`;
+
+  return {
+    type: "success",
+    refresh: storedRefresh,
+    access: tokenPayload.access_token,
+    expires: Date.now() + tokenPayload.expires_in * 1000,
+    email,
+    projectId: effectiveProjectId || "",
+    tier,
+  };
+}
+
+/**
+ * Builds the Google consent URL. `redirectUri` must match the port the callback listener bound;
+ * it is remembered with the state so the code exchange sends the same value.
+ */
+export async function authorizeAntigravity(
+  projectId = "",
+  redirectUri = ANTIGRAVITY_REDIRECT_URI,
+): Promise<AntigravityAuthorization> {
   const pkce = (await generatePKCE()) as PkcePair;
 
   const url = new URL("https://accounts.google.com/o/oauth2/v2/auth");
   url.searchParams.set("client_id", ANTIGRAVITY_CLIENT_ID);
   url.searchParams.set("response_type", "code");
-  url.searchParams.set("redirect_uri", ANTIGRAVITY_REDIRECT_URI);
+  url.searchParams.set("redirect_uri", redirectUri);
   url.searchParams.set("scope", ANTIGRAVITY_SCOPES.join(" "));
   url.searchParams.set("code_challenge", pkce.challenge);
   url.searchParams.set("code_challenge_method", "S256");
-  url.searchParams.set(
-    "state",
-    encodeState({ verifier: pkce.verifier, projectId: projectId || "" }),
-  );
+  const state = base64UrlEncode(randomBytes(32));
+  pendingAuthorizations.set(state, {
+    verifier: pkce.verifier,
+    projectId: projectId || "",
+    redirectUri,
+    expiresAt: Date.now() + AUTHORIZATION_STATE_TTL_MS,
+  });
+  url.searchParams.set("state", state);
   url.searchParams.set("access_type", "offline");
   url.searchParams.set("prompt", "consent");
 
@@ -198,6 +382,7 @@ export async function authorizeAntigravity(projectId = ""): Promise<AntigravityA
     url: url.toString(),
     verifier: pkce.verifier,
     projectId: projectId || "",
+    state,
   };
 }
 
@@ -213,7 +398,15 @@ export async function exchangeAntigravity(
       };
     }
 
-    const { verifier, projectId } = decodeState(state);
+    const pending = consumePendingAuthorization(state);
+    if (!pending) {
+      return {
+        type: "failed",
+        code: "invalid_state",
+        error: "OAuth state is missing, unknown or already used. Restart the login.",
+      };
+    }
+    const { verifier, projectId, redirectUri } = pending;
 
     const tokenResponse = await fetch("https://oauth2.googleapis.com/token", {
       method: "POST",
@@ -225,61 +418,128 @@ export async function exchangeAntigravity(
         client_secret: ANTIGRAVITY_CLIENT_SECRET,
         code,
         grant_type: "authorization_code",
-        redirect_uri: ANTIGRAVITY_REDIRECT_URI,
+        redirect_uri: redirectUri,
         code_verifier: verifier,
       }),
     });
 
     if (!tokenResponse.ok) {
       const errorText = await tokenResponse.text();
-      return { type: "failed", error: errorText };
+      return { type: "failed", error: errorText, ...parseTokenErrorCode(errorText) };
     }
 
     const tokenPayload = (await tokenResponse.json()) as AntigravityTokenResponse;
+    return await completeTokenExchange(tokenPayload, projectId);
+  } catch (error) {
+    return {
+      type: "failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
 
-    const userInfoResponse = await fetch(
-      "https://www.googleapis.com/oauth2/v1/userinfo?alt=json",
-      {
-        headers: {
-          Authorization: `Bearer ${tokenPayload.access_token}`,
-        },
-      },
-    );
+/**
+ * Starts an RFC 8628 device authorization request. The user enters the returned code at the
+ * verification URL on any device, while this process polls for the tokens.
+ */
+export async function startAntigravityDeviceAuthorization(projectId = ""): Promise<AntigravityDeviceAuthorization> {
+  const response = await fetch(DEVICE_CODE_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      client_id: ANTIGRAVITY_CLIENT_ID,
+      scope: ANTIGRAVITY_SCOPES.join(" "),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    throw new Error(`Device authorization request failed (${response.status})${errorText ? `: ${errorText}` : ""}`);
+  }
 
-    const userInfo = userInfoResponse.ok
-      ? ((await userInfoResponse.json()) as AntigravityUserInfo)
-      : {};
+  const payload = (await response.json()) as DeviceCodeResponse;
+  const verificationUrl = payload.verification_url ?? payload.verification_uri;
+  if (!payload.device_code || !payload.user_code || !verificationUrl) {
+    throw new Error("Device authorization response is missing the device code, user code or verification URL");
+  }
 
-    const refreshToken = tokenPayload.refresh_token;
-    if (!refreshToken) {
-      return { type: "failed", error: "Missing refresh token in response" };
-    }
+  return {
+    deviceCode: payload.device_code,
+    userCode: payload.user_code,
+    verificationUrl,
+    expiresAt: Date.now() + payload.expires_in * 1000,
+    intervalMs: payload.interval ? payload.interval * 1000 : DEVICE_DEFAULT_INTERVAL_MS,
+    projectId: projectId || "",
+  };
+}
 
-    // Auto-discover project ID and tier if not provided, or fetch tier if project ID is provided
-    let effectiveProjectId = projectId;
+/**
+ * Polls the token endpoint until the user approves or denies the device authorization,
+ * honoring the server-provided interval and backing off on `slow_down`.
+ */
+export async function pollAntigravityDeviceAuthorization(
+  authorization: AntigravityDeviceAuthorization,
+  { signal, sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms)) }: DevicePollOptions = {},
+): Promise<AntigravityTokenExchangeResult> {
+  if (!ANTIGRAVITY_CLIENT_SECRET) {
+    return {
+      type: "failed",
+      error: "Missing ANTIGRAVITY_CLIENT_SECRET. Set it in your environment before authenticating.",
+    };
+  }
 
-    const accountInfo = await fetchAccountInfo(tokenPayload.access_token);
-    if (!effectiveProjectId) {
-      effectiveProjectId = accountInfo.projectId;
-    }
-    const tier = accountInfo.tier;
+  let intervalMs = authorization.intervalMs;
 
-    // Don't embed email in refresh token - we store it separately in accounts.json
-    const storedRefresh = `${refreshToken}|${effectiveProjectId || ""}`;
+  try {
+    while (Date.now() < authorization.expiresAt) {
+      await sleep(intervalMs);
+      if (signal?.aborted) {
+        return { type: "failed", error: "Device authorization cancelled" };
+      }
 
-    return {
-      type: "success",
-      refresh: storedRefresh,
-      access: tokenPayload.access_token,
-      expires: Date.now() + tokenPayload.expires_in * 1000,
-      email: userInfo.email,
-      projectId: effectiveProjectId || "",
-      tier,
-    };
+      const tokenResponse = await fetch("https://oauth2.googleapis.com/token", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          client_id: ANTIGRAVITY_CLIENT_ID,
+          client_secret: ANTIGRAVITY_CLIENT_SECRET,
+          device_code: authorization.deviceCode,
+          grant_type: DEVICE_CODE_GRANT_TYPE,
+        }),
+      });
+
+      if (tokenResponse.ok) {
+        const tokenPayload = (await tokenResponse.json()) as AntigravityTokenResponse;
+        return await completeTokenExchange(tokenPayload, authorization.projectId);
+      }
+
+      const errorText = await tokenResponse.text().catch(() => "");
+      const { code: errorCode } = parseTokenErrorCode(errorText);
+
+      switch (errorCode) {
+        case "authorization_pending":
+          continue;
+        case "slow_down":
+          intervalMs += DEVICE_SLOW_DOWN_INCREMENT_MS;
+          continue;
+        case "access_denied":
+          return { type: "failed", code: errorCode, error: "Access denied: the device authorization request was declined" };
+        case "expired_token":
+          return { type: "failed", code: errorCode, error: "The device code expired before it was approved" };
+        default:
+          return { type: "failed", code: errorCode, error: errorText || `Token request failed (${tokenResponse.status})` };
+      }
+    }
   } catch (error) {
     return {
       type: "failed",
       error: error instanceof Error ? error.message : "Unknown error",
     };
   }
+
+  return { type: "failed", error: "The device code expired before it was approved" };
 }
@@ -1,7 +1,15 @@
 export const ANTIGRAVITY_CLIENT_ID = "1071006060591-tmhssin2h21lcre235vtolojh4g403ep.apps.googleusercontent.com";
 export const ANTIGRAVITY_CLIENT_SECRET = process.env.ANTIGRAVITY_CLIENT_SECRET ?? "";
 export const ANTIGRAVITY_CALLBACK_PORT = 36742;
-export const ANTIGRAVITY_REDIRECT_URI = `http://localhost:${ANTIGRAVITY_CALLBACK_PORT}/oauth-callback`;
+export const ANTIGRAVITY_CALLBACK_PATH = "/oauth-callback";
+export const ANTIGRAVITY_REDIRECT_URI = buildRedirectUri(ANTIGRAVITY_CALLBACK_PORT);
+
+/**
+ * Loopback redirect URI for a callback listener bound to the given port.
+ */
+export function buildRedirectUri(port: number): string {
+  return `http://localhost:${port}${ANTIGRAVITY_CALLBACK_PATH}`;
+}
 
 export const ANTIGRAVITY_SCOPES: readonly string[] = [
   "https://www.googleapis.com/auth/cloud-platform",
@@ -36,7 +44,8 @@ export const CODE_ASSIST_ENDPOINT_FALLBACKS = [
 ] as const;
 
 /**
- * Primary endpoint to use (daily sandbox - same as CLIProxy/Vibeproxy).
+ * Base URL of prepared requests (prod, or ANTIGRAVITY_ENDPOINT). Requests are sent to the endpoint picked
+ * by endpoint health tracking, which replaces this base.
  */
 export const CODE_ASSIST_ENDPOINT =
   process.env.ANTIGRAVITY_ENDPOINT ??
@@ -59,3 +68,22 @@ export const SEARCH_TIMEOUT_MS = 60 * 1000;
 export const MAX_ACCOUNTS = 10;
 
 export const ENV_CONSOLE_LOG = "OPENCODE_ANTIGRAVITY_CONSOLE_LOG";
+export const ENV_CALLBACK_PORT = "ANTIGRAVITY_CALLBACK_PORT";
+export const ENV_DEVICE_AUTH = "ANTIGRAVITY_DEVICE_AUTH";
+export const ENV_STORAGE_PASSPHRASE = "ANTIGRAVITY_STORAGE_PASSPHRASE";
+export const ENV_STORAGE_KEY_FILE = "ANTIGRAVITY_STORAGE_KEY_FILE";
+export const ENV_STORAGE_KEY_COMMAND = "ANTIGRAVITY_STORAGE_KEY_COMMAND";
+export const ENV_ACCOUNT_SELECTION = "ANTIGRAVITY_ACCOUNT_SELECTION";
+export const ENV_PROBE_MODELS = "ANTIGRAVITY_PROBE_MODELS";
+export const ENV_USAGE_RETENTION_DAYS = "ANTIGRAVITY_USAGE_RETENTION_DAYS";
+export const ENV_QUOTA_GROUPS = "ANTIGRAVITY_QUOTA_GROUPS";
+export const ENV_CIRCUIT_BREAKER = "ANTIGRAVITY_CIRCUIT_BREAKER";
+export const ENV_WORKSPACE_GROUPS = "ANTIGRAVITY_WORKSPACE_GROUPS";
+export const ENV_SESSION_AFFINITY = "ANTIGRAVITY_SESSION_AFFINITY";
+export const ENV_MAX_WAIT = "ANTIGRAVITY_MAX_WAIT";
+export const ENV_FAIL_FAST = "ANTIGRAVITY_FAIL_FAST";
+export const ENV_MODEL_FALLBACKS = "ANTIGRAVITY_MODEL_FALLBACKS";
+export const ENV_FALLBACK_AFTER = "ANTIGRAVITY_FALLBACK_AFTER";
+export const ENV_ENDPOINT = "ANTIGRAVITY_ENDPOINT";
+export const ENV_ENDPOINTS = "ANTIGRAVITY_ENDPOINTS";
+export const ENV_STREAM_IDLE_TIMEOUT = "ANTIGRAVITY_STREAM_IDLE_TIMEOUT";
@@ -1,26 +1,55 @@
 import { tool } from "/home/ahmad/.config/opencode/node_modules/@opencode-ai/plugin/dist/index.js";
-import type { AntigravityTokenExchangeResult } from "./antigravity/oauth";
-import { authorizeAntigravity, exchangeAntigravity } from "./antigravity/oauth";
-import { ANTIGRAVITY_PROVIDER_ID, MAX_ACCOUNTS } from "./constants";
-import { accessTokenExpired, isOAuthAuth, parseRefreshParts, formatMultiAccountRefresh } from "./plugin/auth";
-import { AccountManager, type AccountTier } from "./plugin/accounts";
+import type { AntigravityDeviceAuthorization, AntigravityTokenExchangeResult } from "./antigravity/oauth";
+import {
+  authorizeAntigravity,
+  exchangeAntigravity,
+  fetchAccountInfo,
+  fetchUserEmail,
+  parseOAuthCallback,
+  pollAntigravityDeviceAuthorization,
+  startAntigravityDeviceAuthorization,
+} from "./antigravity/oauth";
+import { ANTIGRAVITY_PROVIDER_ID, ENV_DEVICE_AUTH, MAX_ACCOUNTS } from "./constants";
+import { accessTokenExpired, isOAuthAuth, formatRefreshParts } from "./plugin/auth";
+import type { AccountTier } from "./plugin/accounts";
+import {
+  applyAccountAction,
+  formatAccountList,
+  loadAccountManager,
+  logoutAccounts,
+  persistAccountManager,
+  reauthenticateAccount,
+  upsertAccount,
+  type AccountAction,
+  type NewAccount,
+} from "./plugin/account-admin";
+import { getSharedAccountManager } from "./plugin/account-store";
 import { openBrowser } from "./plugin/browser";
-import { promptProjectId, promptAddAnotherAccount } from "./plugin/cli";
+import { getProbeModels, probeModelAccess } from "./plugin/capabilities";
+import { promptProjectId, promptAddAnotherAccount, promptAccountMenuChoice, promptServiceAccountKeyPath, promptReplaceExistingAccounts } from "./plugin/cli";
 import { createAntigravityFetch } from "./plugin/fetch-wrapper";
+import { formatImportResult, importCredentialFile } from "./plugin/import";
 import { createLogger, initLogger } from "./plugin/logger";
 import { ensureProjectContext } from "./plugin/project";
 import { executeSearch } from "./plugin/search";
 import { startOAuthListener, type OAuthListener } from "./plugin/server";
-import { loadAccounts, saveAccounts } from "./plugin/storage";
-import { refreshAccessToken } from "./plugin/token";
+import {
+  buildServiceAccountRefreshToken,
+  describeGoogleCredentials,
+  loadGoogleCredentials,
+  mintGoogleAccessToken,
+} from "./plugin/service-account";
+import { hydrateAccountsFromCache, refreshAccountAccessToken, startTokenRefreshScheduler } from "./plugin/refresh-scheduler";
+import { TokenRevokedError } from "./plugin/token";
+import { formatUsageReport, loadUsageLedger } from "./plugin/usage";
 import { createSessionRecoveryHook } from "./plugin/recovery";
+import { assertWorkspaceHasAccounts, resolveAllowedGroups } from "./plugin/workspace-groups";
 import type {
   GetAuth,
   LoaderResult,
   PluginContext,
   PluginResult,
   Provider,
-  RefreshParts,
 } from "./plugin/types";
 
 const log = createLogger("plugin");
@@ -28,15 +57,18 @@ const log = createLogger("plugin");
 async function getAuthContext(
   getAuth: GetAuth,
   client: PluginContext["client"],
+  directory: string,
 ): Promise<{ accessToken: string; projectId: string } | null> {
   const auth = await getAuth();
   if (!isOAuthAuth(auth)) {
     return null;
   }
 
-  const storedAccounts = await loadAccounts();
-  const accountManager = new AccountManager(auth, storedAccounts);
-  const account = accountManager.getCurrentOrNextForFamily("gemini-flash");
+  const accountManager = await getSharedAccountManager(auth);
+  hydrateAccountsFromCache(accountManager);
+  const allowedGroups = resolveAllowedGroups(directory);
+  assertWorkspaceHasAccounts(accountManager, allowedGroups, directory);
+  let account = accountManager.getCurrentOrNextForFamily("gemini-flash", undefined, allowedGroups);
   if (!account) {
     return null;
   }
@@ -44,14 +76,31 @@ async function getAuthContext(
   let authRecord = accountManager.accountToAuth(account);
 
   if (accessTokenExpired(authRecord)) {
-    const refreshed = await refreshAccessToken(authRecord, client);
+    let refreshed: Awaited<ReturnType<typeof refreshAccountAccessToken>>;
+    while (true) {
+      try {
+        refreshed = await refreshAccountAccessToken(accountManager, account, client);
+        break;
+      } catch (error) {
+        if (!(error instanceof TokenRevokedError)) {
+          throw error;
+        }
+        accountManager.markNeedsReauth(account);
+        try {
+          await accountManager.save();
+        } catch {}
+        account = accountManager.getCurrentOrNextForFamily("gemini-flash", undefined, allowedGroups);
+        if (!account) {
+          return null;
+        }
+        authRecord = accountManager.accountToAuth(account);
+      }
+    }
     if (!refreshed) {
       return null;
     }
 
     authRecord = refreshed;
-    const parts = parseRefreshParts(refreshed.refresh);
-    accountManager.updateAccount(account, refreshed.access!, refreshed.expires!, parts);
 
     try {
       await client.auth.set({
@@ -75,7 +124,7 @@ async function getAuthContext(
   }
 }
 
-function createGoogleSearchTool(getAuth: GetAuth, client: PluginContext["client"]) {
+function createGoogleSearchTool(getAuth: GetAuth, client: PluginContext["client"], directory: string) {
   return tool({
     description: "Search the web using Google Search and analyze URLs. Returns real-time information from the internet with source citations. Use this when you need up-to-date information about current events, recent developments, or any topic that may have changed. You can also provide specific URLs to analyze. IMPORTANT: If the user mentions or provides any URLs in their query, you MUST extract those URLs and pass them in the 'urls' parameter for direct analysis.",
     args: {
@@ -86,7 +135,7 @@ function createGoogleSearchTool(getAuth: GetAuth, client: PluginContext["client"
     async execute(args, ctx) {
       log.debug("Google Search tool called", { query: args.query, urlCount: args.urls?.length ?? 0 });
 
-      const authContext = await getAuthContext(getAuth, client);
+      const authContext = await getAuthContext(getAuth, client, directory);
       if (!authContext) {
         return "Error: Not authenticated with Antigravity. Please run `opencode auth login` to authenticate.";
       }
@@ -105,10 +154,150 @@ function createGoogleSearchTool(getAuth: GetAuth, client: PluginContext["client"
   });
 }
 
+const ACCOUNT_TOOL_ACTIONS = ["list", "usage", "add", "reauth", "import", "remove", "move", "disable", "enable", "groups", "logout"] as const;
+
+interface AccountsToolArgs {
+  action: (typeof ACCOUNT_TOOL_ACTIONS)[number];
+  position?: number;
+  to?: number;
+  projectId?: string;
+  all?: boolean;
+  path?: string;
+  days?: number;
+  groups?: string[];
+}
+
+function createAccountsTool(getAuth: GetAuth, client: PluginContext["client"]) {
+  return tool({
+    description: "List and manage the Google accounts the Antigravity provider rotates between. Actions: list, usage (requests, input/output/cached/thinking tokens and 429s per account, model and day; pass days to change the window, default 7), add (opens a browser login and merges the new account), reauth (browser login that replaces the refresh token of the account at position, e.g. after Google revoked it), import (reads refresh tokens from a credential file such as gemini-cli's ~/.gemini/oauth_creds.json, validates them and merges them without a browser), remove, move (reorder), disable, enable, groups (sets the account's group labels, e.g. work or personal, which ANTIGRAVITY_WORKSPACE_GROUPS uses to restrict workspaces; an empty list clears them) and logout (revokes the account's tokens with Google; pass all=true to sign out of every account). Positions are 1-based as shown by list. Changes are merged into the existing account pool.",
+    args: {
+      action: tool.schema.enum(ACCOUNT_TOOL_ACTIONS).describe("The account operation to perform"),
+      position: tool.schema.number().int().optional().describe("1-based account position for remove, move, disable, enable and groups"),
+      to: tool.schema.number().int().optional().describe("Target 1-based position for move"),
+      projectId: tool.schema.string().optional().describe("Google Cloud project ID for add and reauth (leave empty to use the account's default project)"),
+      all: tool.schema.boolean().optional().describe("For logout: sign out of every account instead of one position"),
+      path: tool.schema.string().optional().describe("For import: credential file path (default: ~/.gemini/oauth_creds.json)"),
+      days: tool.schema.number().int().optional().describe("For usage: number of days to show (default: 7)"),
+      groups: tool.schema.array(tool.schema.string()).optional().describe("For groups: the account's group labels"),
+    },
+    async execute(args: AccountsToolArgs) {
+      log.debug("Accounts tool called", { action: args.action, position: args.position, to: args.to });
+
+      const auth = await getAuth().catch(() => null);
+      const manager = await loadAccountManager(auth);
+
+      if (args.action === "add" || args.action === "reauth") {
+        if (isHeadlessEnvironment()) {
+          return "Error: Cannot open a browser in a headless session. Run `opencode auth login` and choose \"Add or manage accounts (Antigravity)\" instead.";
+        }
+        if (args.action === "reauth" && args.position === undefined) {
+          return "Error: \"position\" is required for reauth.";
+        }
+
+        const newAccount = await authenticateSingleAccount(client, false, args.projectId ?? "");
+        if (!newAccount) {
+          return "Error: Authentication failed or was cancelled.";
+        }
+
+        try {
+          if (args.action === "reauth") {
+            const account = reauthenticateAccount(manager, args.position!, newAccount);
+            await persistAccountManager(manager, client);
+            return `Re-authenticated ${account.email ?? `account ${account.index + 1}`}.\n\n${formatAccountList(manager)}`;
+          }
+          const { account, added } = upsertAccount(manager, newAccount);
+          await persistAccountManager(manager, client);
+          return `${added ? "Added" : "Updated"} ${account.email ?? `account ${account.index + 1}`}.\n\n${formatAccountList(manager)}`;
+        } catch (error) {
+          return `Error: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      }
+
+      if (args.action === "import") {
+        try {
+          const result = await importCredentialFile(manager, client, args.path || undefined);
+          if (result.added.length > 0 || result.updated.length > 0) {
+            await persistAccountManager(manager, client);
+          }
+          return `${formatImportResult(result)}\n\n${formatAccountList(manager)}`;
+        } catch (error) {
+          return `Error: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      }
+
+      if (args.action === "usage") {
+        return formatUsageReport(await loadUsageLedger(), args.days ?? 7);
+      }
+
+      if (manager.getAccountCount() === 0) {
+        return "No Antigravity accounts configured. Run `opencode auth login` to authenticate.";
+      }
+
+      if (args.action === "logout") {
+        if (!args.all && args.position === undefined) {
+          return "Error: \"position\" or \"all\" is required for logout.";
+        }
+        try {
+          const message = await logoutAccounts(manager, client, args.all ? "all" : args.position!);
+          return `${message}\n\n${formatAccountList(manager)}`;
+        } catch (error) {
+          return `Error: ${error instanceof Error ? error.message : String(error)}`;
+        }
+      }
+
+      let action: AccountAction;
+      if (args.action === "list") {
+        action = { type: "list" };
+      } else if (args.position === undefined) {
+        return `Error: "position" is required for ${args.action}.`;
+      } else if (args.action === "move") {
+        if (args.to === undefined) {
+          return "Error: \"to\" is required for move.";
+        }
+        action = { type: "move", position: args.position, to: args.to };
+      } else if (args.action === "groups") {
+        action = { type: "groups", position: args.position, groups: args.groups ?? [] };
+      } else {
+        action = { type: args.action, position: args.position };
+      }
+
+      try {
+        const message = applyAccountAction(manager, action);
+        if (action.type === "list") {
+          return message;
+        }
+        await persistAccountManager(manager, client);
+        return `${message}\n\n${formatAccountList(manager)}`;
+      } catch (error) {
+        return `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    },
+  });
+}
+
+function isHeadlessEnvironment(): boolean {
+  return !!(
+    process.env.SSH_CONNECTION ||
+    process.env.SSH_CLIENT ||
+    process.env.SSH_TTY ||
+    process.env.OPENCODE_HEADLESS
+  );
+}
+
 async function authenticateSingleAccount(
   client: PluginContext["client"],
   isHeadless: boolean,
-): Promise<{ refresh: string; access: string; expires: number; projectId: string; email?: string; tier?: AccountTier } | null> {
+  presetProjectId?: string,
+): Promise<NewAccount | null> {
+  const projectId = presetProjectId ?? (await promptProjectId());
+
+  if (isHeadless && process.env[ENV_DEVICE_AUTH] !== "0") {
+    const deviceResult = await authenticateWithDeviceCode(client, projectId);
+    if (deviceResult) {
+      return finishAuthentication(client, deviceResult);
+    }
+  }
+
   let listener: OAuthListener | null = null;
   if (!isHeadless) {
     try {
@@ -123,8 +312,7 @@ async function authenticateSingleAccount(
     }
   }
 
-  const projectId = await promptProjectId();
-  const authorization = await authorizeAntigravity(projectId);
+  const authorization = await authorizeAntigravity(projectId, listener?.redirectUri);
 
   if (!isHeadless) {
     try {
@@ -150,20 +338,10 @@ async function authenticateSingleAccount(
     });
     try {
       const callbackUrl = await listener.waitForCallback();
-      const code = callbackUrl.searchParams.get("code");
-      const state = callbackUrl.searchParams.get("state");
-
-      if (!code || !state) {
-        await client.tui.showToast({
-          body: {
-            message: "Missing code or state in callback URL",
-            variant: "error",
-          },
-        });
-        return null;
-      }
-
-      result = await exchangeAntigravity(code, state);
+      const callback = parseOAuthCallback(callbackUrl);
+      result = callback.type === "success"
+        ? await exchangeAntigravity(callback.code, callback.state)
+        : callback;
     } catch (error) {
       await client.tui.showToast({
         body: {
@@ -187,20 +365,10 @@ async function authenticateSingleAccount(
     try {
       const callbackUrlStr = await rl.question("Paste the full redirect URL here: ");
       const callbackUrl = new URL(callbackUrlStr);
-      const code = callbackUrl.searchParams.get("code");
-      const state = callbackUrl.searchParams.get("state");
-
-      if (!code || !state) {
-        await client.tui.showToast({
-          body: {
-            message: "Missing code or state in callback URL",
-            variant: "error",
-          },
-        });
-        return null;
-      }
-
-      result = await exchangeAntigravity(code, state);
+      const callback = parseOAuthCallback(callbackUrl);
+      result = callback.type === "success"
+        ? await exchangeAntigravity(callback.code, callback.state)
+        : callback;
     } catch (error) {
       await client.tui.showToast({
         body: {
@@ -214,7 +382,47 @@ async function authenticateSingleAccount(
     }
   }
 
+  return finishAuthentication(client, result);
+}
+
+/**
+ * Runs the OAuth device authorization flow for headless sessions.
+ * Returns null when the device flow can't be started so the caller can fall back to copy/paste.
+ */
+async function authenticateWithDeviceCode(
+  client: PluginContext["client"],
+  projectId: string,
+): Promise<AntigravityTokenExchangeResult | null> {
+  let authorization: AntigravityDeviceAuthorization;
+  try {
+    authorization = await startAntigravityDeviceAuthorization(projectId);
+  } catch (error) {
+    log.warn("Device authorization unavailable, falling back to copy/paste", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+
+  console.log("\n=== Antigravity OAuth Setup (device login) ===");
+  console.log(`On any device, open ${authorization.verificationUrl}`);
+  console.log(`and enter the code: ${authorization.userCode}\n`);
+
+  await client.tui.showToast({
+    body: {
+      message: `Enter code ${authorization.userCode} at ${authorization.verificationUrl}`,
+      variant: "info",
+    },
+  });
+
+  return pollAntigravityDeviceAuthorization(authorization);
+}
+
+async function finishAuthentication(
+  client: PluginContext["client"],
+  result: AntigravityTokenExchangeResult,
+): Promise<NewAccount | null> {
   if (result.type === "failed") {
+    log.warn("Authentication failed", { code: result.code, description: result.description, error: result.error });
     await client.tui.showToast({
       body: {
         message: `Authentication failed: ${result.error}`,
@@ -224,6 +432,11 @@ async function authenticateSingleAccount(
     return null;
   }
 
+  const probeModels = getProbeModels();
+  const modelCapabilities = probeModels.length > 0
+    ? await probeModelAccess(result.access, result.projectId, probeModels)
+    : undefined;
+
   return {
     refresh: result.refresh,
     access: result.access,
@@ -231,6 +444,7 @@ async function authenticateSingleAccount(
     projectId: result.projectId,
     email: result.email,
     tier: result.tier as AccountTier,
+    modelCapabilities,
   };
 }
 
@@ -252,6 +466,8 @@ export const AntigravityOAuthPlugin = async ({ client, directory }: PluginContex
           return {};
         }
 
+        startTokenRefreshScheduler(getAuth, client);
+
         if (provider.models) {
           for (const model of Object.values(provider.models)) {
             if (model) {
@@ -260,7 +476,7 @@ export const AntigravityOAuthPlugin = async ({ client, directory }: PluginContex
           }
         }
 
-        const antigravityFetch = createAntigravityFetch(getAuth, client);
+        const antigravityFetch = createAntigravityFetch(getAuth, client, directory);
 
         return {
           apiKey: "",
@@ -272,21 +488,15 @@ export const AntigravityOAuthPlugin = async ({ client, directory }: PluginContex
           label: "OAuth with Google (Antigravity)",
           type: "oauth",
           authorize: async () => {
-            const isHeadless = !!(
-              process.env.SSH_CONNECTION ||
-              process.env.SSH_CLIENT ||
-              process.env.SSH_TTY ||
-              process.env.OPENCODE_HEADLESS
-            );
-
-            const accounts: Array<{
-              refresh: string;
-              access: string;
-              expires: number;
-              projectId: string;
-              email?: string;
-              tier?: AccountTier;
-            }> = [];
+            const isHeadless = isHeadlessEnvironment();
+            const existingAuth = cachedGetAuth ? await cachedGetAuth().catch(() => null) : null;
+            const manager = await loadAccountManager(existingAuth);
+            // Logging in adds to the pool; dropping the configured accounts has to be asked for.
+            const replaceExisting =
+              manager.getAccountCount() > 0 && (await promptReplaceExistingAccounts(manager.getAccountCount()));
+            const keptCount = replaceExisting ? 0 : manager.getAccountCount();
+
+            const accounts: NewAccount[] = [];
 
             const firstAccount = await authenticateSingleAccount(client, isHeadless);
             if (!firstAccount) {
@@ -306,8 +516,8 @@ export const AntigravityOAuthPlugin = async ({ client, directory }: PluginContex
               },
             });
 
-            while (accounts.length < MAX_ACCOUNTS) {
-              const addAnother = await promptAddAnotherAccount(accounts.length);
+            while (keptCount + accounts.length < MAX_ACCOUNTS) {
+              const addAnother = await promptAddAnotherAccount(keptCount + accounts.length);
               if (!addAnother) {
                 break;
               }
@@ -333,51 +543,221 @@ export const AntigravityOAuthPlugin = async ({ client, directory }: PluginContex
               });
             }
 
-            const refreshParts: RefreshParts[] = accounts.map((acc) => ({
-              refreshToken: acc.refresh,
-              projectId: acc.projectId,
-              managedProjectId: undefined,
-            }));
+            if (replaceExisting) {
+              for (const account of [...manager.getAccounts()].reverse()) {
+                manager.removeAccount(account.index);
+              }
+            }
+            for (const newAccount of accounts) {
+              try {
+                upsertAccount(manager, newAccount);
+              } catch (error) {
+                console.error(`[antigravity-auth] Skipping ${newAccount.email ?? "account"}:`, error instanceof Error ? error.message : error);
+              }
+            }
 
-            const combinedRefresh = formatMultiAccountRefresh({ accounts: refreshParts });
+            try {
+              // When replacing, the pool is complete: accounts only found on disk are dropped, not merged back.
+              await manager.save({ replaceAccounts: replaceExisting });
+            } catch (error) {
+              console.error("[antigravity-auth] Failed to save account metadata:", error);
+            }
+
+            const authDetails = manager.toAuthDetails();
+            const current = manager.getCurrentAccount() ?? manager.getAccounts()[0]!;
+            return {
+              url: "",
+              instructions: replaceExisting || keptCount === 0 ? "Multi-account setup complete!" : "Accounts added.",
+              method: "auto",
+              callback: async (): Promise<AntigravityTokenExchangeResult> => {
+                return {
+                  type: "success",
+                  refresh: authDetails.refresh,
+                  access: authDetails.access,
+                  expires: authDetails.expires,
+                  email: current.email,
+                  projectId: current.parts.projectId ?? "",
+                  tier: current.tier,
+                };
+              },
+            };
+          },
+        },
+        {
+          label: "Add or manage accounts (Antigravity)",
+          type: "oauth",
+          authorize: async () => {
+            const isHeadless = isHeadlessEnvironment();
+            const existingAuth = cachedGetAuth ? await cachedGetAuth().catch(() => null) : null;
+            const manager = await loadAccountManager(existingAuth);
+
+            console.log("\n=== Antigravity Accounts ===");
+            console.log(formatAccountList(manager));
+
+            while (true) {
+              const choice = await promptAccountMenuChoice();
+              if (choice.type === "done") {
+                break;
+              }
+
+              if (choice.type === "add") {
+                const newAccount = await authenticateSingleAccount(client, isHeadless);
+                if (!newAccount) {
+                  continue;
+                }
+                try {
+                  const { account, added } = upsertAccount(manager, newAccount);
+                  await client.tui.showToast({
+                    body: {
+                      message: `${added ? "Added" : "Updated"} account ${account.index + 1}${account.email ? ` (${account.email})` : ""}`,
+                      variant: "success",
+                    },
+                  });
+                } catch (error) {
+                  console.log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+                }
+              } else if (choice.type === "reauth") {
+                if (!manager.getAccounts()[choice.position - 1]) {
+                  console.log(`Error: No account at position ${choice.position}.`);
+                  continue;
+                }
+                const newAccount = await authenticateSingleAccount(client, isHeadless);
+                if (!newAccount) {
+                  continue;
+                }
+                try {
+                  const account = reauthenticateAccount(manager, choice.position, newAccount);
+                  await client.tui.showToast({
+                    body: {
+                      message: `Re-authenticated account ${account.index + 1}${account.email ? ` (${account.email})` : ""}`,
+                      variant: "success",
+                    },
+                  });
+                } catch (error) {
+                  console.log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+                  continue;
+                }
+              } else if (choice.type === "import") {
+                try {
+                  console.log(formatImportResult(await importCredentialFile(manager, client, choice.path)));
+                } catch (error) {
+                  console.log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+                  continue;
+                }
+              } else if (choice.type === "logout") {
+                try {
+                  console.log(await logoutAccounts(manager, client, choice.target));
+                } catch (error) {
+                  console.log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+                  continue;
+                }
+              } else {
+                try {
+                  const message = applyAccountAction(manager, choice);
+                  if (choice.type !== "list") {
+                    console.log(message);
+                  }
+                } catch (error) {
+                  console.log(`Error: ${error instanceof Error ? error.message : String(error)}`);
+                  continue;
+                }
+              }
+
+              console.log(formatAccountList(manager));
+            }
+
+            if (manager.getAccountCount() === 0) {
+              return {
+                url: "",
+                instructions: "No accounts configured",
+                method: "auto",
+                callback: async () => ({ type: "failed" as const, error: "No Antigravity accounts configured" }),
+              };
+            }
 
             try {
-              await saveAccounts({
-                version: 3,
-                accounts: accounts.map((acc, index) => ({
-                  email: acc.email,
-                  refreshToken: acc.refresh,
-                  projectId: acc.projectId,
-                  tier: acc.tier,
-                  managedProjectId: undefined,
-                  addedAt: Date.now(),
-                  lastUsed: index === 0 ? Date.now() : 0,
-                })),
-                activeIndex: 0,
-              });
+              await manager.save();
             } catch (error) {
               console.error("[antigravity-auth] Failed to save account metadata:", error);
             }
 
-            const firstAcc = accounts[0]!;
+            const authDetails = manager.toAuthDetails();
+            const current = manager.getCurrentAccount() ?? manager.getAccounts()[0]!;
             return {
               url: "",
-              instructions: "Multi-account setup complete!",
+              instructions: "Account changes saved.",
               method: "auto",
               callback: async (): Promise<AntigravityTokenExchangeResult> => {
                 return {
                   type: "success",
-                  refresh: combinedRefresh,
-                  access: firstAcc.access,
-                  expires: firstAcc.expires,
-                  email: firstAcc.email,
-                  projectId: firstAcc.projectId,
-                  tier: firstAcc.tier,
+                  refresh: authDetails.refresh,
+                  access: authDetails.access,
+                  expires: authDetails.expires,
+                  email: current.email,
+                  projectId: current.parts.projectId ?? "",
+                  tier: current.tier,
                 };
               },
             };
           },
         },
+        {
+          label: "Service account or Application Default Credentials (Antigravity)",
+          type: "oauth",
+          authorize: async () => {
+            const keyPath = await promptServiceAccountKeyPath();
+            const refreshToken = buildServiceAccountRefreshToken(keyPath || undefined);
+
+            let account: AntigravityTokenExchangeResult;
+            let instructions: string;
+            try {
+              const credentials = await loadGoogleCredentials(refreshToken);
+              const { access, expires } = await mintGoogleAccessToken(credentials);
+              const described = describeGoogleCredentials(credentials);
+              const email = described.email ?? (await fetchUserEmail(access));
+              const accountInfo = await fetchAccountInfo(access);
+              const projectId = described.projectId || accountInfo.projectId;
+
+              // Joins the existing pool; the active account and opencode's primary auth stay as they are.
+              const existingAuth = cachedGetAuth ? await cachedGetAuth().catch(() => null) : null;
+              const manager = await loadAccountManager(existingAuth);
+              const { account: added, added: isNew } = upsertAccount(manager, {
+                refresh: formatRefreshParts({ refreshToken, projectId: projectId || undefined }),
+                access,
+                expires,
+                projectId: projectId || "",
+                email,
+                tier: accountInfo.tier,
+              });
+              await persistAccountManager(manager, client);
+
+              const authDetails = manager.toAuthDetails();
+              const current = manager.getCurrentAccount() ?? added;
+              account = {
+                type: "success",
+                refresh: authDetails.refresh,
+                access: authDetails.access,
+                expires: authDetails.expires,
+                email: current.email,
+                projectId: current.parts.projectId ?? "",
+                tier: current.tier,
+              };
+              instructions = `${isNew ? "Added" : "Updated"}${email ? ` ${email}` : " account"}${projectId ? ` (project ${projectId})` : ""}`;
+            } catch (error) {
+              const message = error instanceof Error ? error.message : String(error);
+              log.error("Service account authentication failed", { error: message });
+              account = { type: "failed", error: message };
+              instructions = `Authentication failed: ${message}`;
+            }
+
+            return {
+              url: "",
+              instructions,
+              method: "auto",
+              callback: async (): Promise<AntigravityTokenExchangeResult> => account,
+            };
+          },
+        },
         {
           label: "Manually enter API Key",
           type: "api",
@@ -397,6 +777,12 @@ export const AntigravityOAuthPlugin = async ({ client, directory }: PluginContex
           throw new Error("Auth not initialized");
         }
         return cachedGetAuth();
+      }, client, directory),
+      antigravity_accounts: createAccountsTool(() => {
+        if (!cachedGetAuth) {
+          throw new Error("Auth not initialized");
+        }
+        return cachedGetAuth();
       }, client),
     },
     event: async (input: { event: { type: string; properties?: unknown } }) => {
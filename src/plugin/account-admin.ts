@@ -0,0 +1,283 @@
+import { ANTIGRAVITY_PROVIDER_ID, MAX_ACCOUNTS } from "../constants";
+import { getSharedAccountManager } from "./account-store";
+import { AccountManager, type AccountTier, type ManagedAccount } from "./accounts";
+import { formatRefreshParts, isOAuthAuth, parseRefreshParts } from "./auth";
+import { clearCachedAuth } from "./cache";
+import { getAccountCircuitKey, getCircuitStatus, listTrippedCircuits, type CircuitStatus } from "./circuit-breaker";
+import { createLogger } from "./logger";
+import { invalidateProjectContextCache } from "./project";
+import { clearAccounts, loadAccounts } from "./storage";
+import { revokeRefreshToken } from "./token";
+import type { AuthDetails, PluginClient } from "./types";
+
+const log = createLogger("account-admin");
+
+/**
+ * Freshly authenticated account, as produced by the OAuth login flow.
+ */
+export interface NewAccount {
+  refresh: string;
+  access: string;
+  expires: number;
+  projectId: string;
+  email?: string;
+  tier?: AccountTier;
+  /** Models probed at login; see capabilities.ts. */
+  modelCapabilities?: Record<string, boolean>;
+}
+
+/**
+ * Account pool edits. Positions are 1-based, matching the "Account N/M" wording used in logs and toasts.
+ */
+export type AccountAction =
+  | { type: "list" }
+  | { type: "remove"; position: number }
+  | { type: "move"; position: number; to: number }
+  | { type: "disable"; position: number }
+  | { type: "enable"; position: number }
+  | { type: "groups"; position: number; groups: string[] };
+
+/**
+ * The AccountManager to edit: the process-wide one requests use (see account-store.ts), so edits apply to
+ * them right away. Before the first login, a manager built from the account file alone.
+ */
+export async function loadAccountManager(auth: AuthDetails | null): Promise<AccountManager> {
+  if (auth && isOAuthAuth(auth)) {
+    return getSharedAccountManager(auth);
+  }
+  return new AccountManager(null, await loadAccounts());
+}
+
+/**
+ * Writes the account pool to both antigravity-accounts.json and opencode's packed refresh string.
+ * The file is merged with other processes' changes; removals are recorded in it, so they stick.
+ */
+export async function persistAccountManager(manager: AccountManager, client: PluginClient): Promise<void> {
+  await manager.save();
+  await client.auth.set({
+    path: { id: ANTIGRAVITY_PROVIDER_ID },
+    body: manager.toAuthDetails(),
+  });
+}
+
+/**
+ * Merges a newly authenticated account into the pool. An existing account with the same email or
+ * refresh token is updated in place, keeping its position and rate-limit history.
+ */
+export function upsertAccount(manager: AccountManager, account: NewAccount): { account: ManagedAccount; added: boolean } {
+  const parts = parseRefreshParts(account.refresh);
+  const existing = manager
+    .getAccounts()
+    .find((a) => (account.email && a.email === account.email) || a.parts.refreshToken === parts.refreshToken);
+
+  if (existing) {
+    const sameProject = (existing.parts.projectId ?? "") === (parts.projectId ?? "");
+    manager.updateAccount(existing, account.access, account.expires, {
+      ...parts,
+      managedProjectId: sameProject ? existing.parts.managedProjectId : undefined,
+    });
+    existing.email = account.email ?? existing.email;
+    existing.tier = account.tier ?? existing.tier;
+    existing.modelCapabilities = mergeModelCapabilities(existing.modelCapabilities, account.modelCapabilities);
+    existing.needsReauth = undefined;
+    log.info("Updated existing account", { accountId: existing.id, accountEmail: existing.email });
+    return { account: existing, added: false };
+  }
+
+  if (manager.getAccountCount() >= MAX_ACCOUNTS) {
+    throw new Error(`Maximum of ${MAX_ACCOUNTS} accounts reached. Remove an account before adding another.`);
+  }
+
+  manager.addAccount(parts, account.access, account.expires, account.email, account.tier);
+  const added = manager.getAccounts()[manager.getAccountCount() - 1]!;
+  added.modelCapabilities = account.modelCapabilities;
+  log.info("Added account", { accountId: added.id, accountEmail: added.email });
+  return { account: added, added: true };
+}
+
+/**
+ * Replaces the refresh token of the account at `position` (1-based) after a targeted re-login,
+ * keeping its position, tier and rate-limit history. Rejects a login for a different email.
+ */
+export function reauthenticateAccount(manager: AccountManager, position: number, account: NewAccount): ManagedAccount {
+  const target = manager.getAccounts()[position - 1];
+  if (!target) {
+    throw new Error(`No account at position ${position} (have ${manager.getAccountCount()}).`);
+  }
+  if (target.email && account.email && target.email !== account.email) {
+    throw new Error(`Signed in as ${account.email}, but account ${position} is ${target.email}.`);
+  }
+
+  const parts = parseRefreshParts(account.refresh);
+  const sameProject = (target.parts.projectId ?? "") === (parts.projectId ?? "");
+  manager.updateAccount(target, account.access, account.expires, {
+    ...parts,
+    managedProjectId: sameProject ? target.parts.managedProjectId : undefined,
+  });
+  target.email = target.email ?? account.email;
+  target.tier = account.tier ?? target.tier;
+  target.modelCapabilities = mergeModelCapabilities(target.modelCapabilities, account.modelCapabilities);
+  target.needsReauth = undefined;
+  log.info("Re-authenticated account", { accountId: target.id, accountEmail: target.email });
+  return target;
+}
+
+function mergeModelCapabilities(
+  known: Record<string, boolean> | undefined,
+  probed: Record<string, boolean> | undefined,
+): Record<string, boolean> | undefined {
+  return probed ? { ...known, ...probed } : known;
+}
+
+function describeAccount(account: ManagedAccount): string {
+  return account.email || `Account ${account.index + 1}`;
+}
+
+function describeCircuit(status: CircuitStatus, now: number): string {
+  if (status.state === "open" && status.openUntil) {
+    return `circuit open, probe in ${Math.max(1, Math.ceil((status.openUntil - now) / 1000))}s`;
+  }
+  return `circuit ${status.state}`;
+}
+
+/**
+ * Renders the account pool as a numbered list, followed by any endpoint whose circuit is not closed.
+ */
+export function formatAccountList(manager: AccountManager): string {
+  const accounts = manager.getAccounts();
+  if (accounts.length === 0) {
+    return "No Antigravity accounts configured.";
+  }
+
+  const current = manager.getCurrentAccount();
+  const now = Date.now();
+
+  const lines = accounts
+    .map((account) => {
+      const flags: string[] = [];
+      if (account === current) flags.push("active");
+      if (account.tier) flags.push(account.tier);
+      if (account.groups) flags.push(`groups: ${account.groups.join(", ")}`);
+      if (account.disabled) flags.push("disabled");
+      if (account.needsReauth) flags.push("needs re-auth");
+
+      const limited = Object.entries(account.rateLimitResetTimes)
+        .filter(([, resetAt]) => typeof resetAt === "number" && resetAt > now)
+        .map(([key]) => key.replace(/^family:/, ""));
+      if (limited.length > 0) flags.push(`rate-limited: ${limited.join(", ")}`);
+
+      const unsupported = Object.entries(account.modelCapabilities ?? {})
+        .filter(([, supported]) => !supported)
+        .map(([model]) => model);
+      if (unsupported.length > 0) flags.push(`no access: ${unsupported.join(", ")}`);
+
+      const circuit = getCircuitStatus(getAccountCircuitKey(account.id));
+      if (circuit.state !== "closed") flags.push(describeCircuit(circuit, now));
+
+      const project = account.parts.projectId || account.parts.managedProjectId;
+      return `${account.index + 1}. ${account.email ?? "(unknown email)"}${project ? ` [${project}]` : ""}${flags.length > 0 ? ` (${flags.join("; ")})` : ""}`;
+    });
+
+  for (const status of listTrippedCircuits()) {
+    if (status.key.startsWith("endpoint:")) {
+      lines.push(`Endpoint ${status.key.slice("endpoint:".length)}: ${describeCircuit(status, now)}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Applies an account action to the manager and returns a human-readable result.
+ * Throws on invalid positions or when the action would leave no usable account.
+ */
+export function applyAccountAction(manager: AccountManager, action: AccountAction): string {
+  if (action.type === "list") {
+    return formatAccountList(manager);
+  }
+
+  const count = manager.getAccountCount();
+  const index = action.position - 1;
+  const account = manager.getAccounts()[index];
+  if (!account) {
+    throw new Error(`No account at position ${action.position} (have ${count}).`);
+  }
+  const label = describeAccount(account);
+
+  switch (action.type) {
+    case "remove":
+      if (count === 1) {
+        throw new Error("Cannot remove the only account. Add another account first, or run `opencode auth logout` to sign out.");
+      }
+      manager.removeAccount(index);
+      return `Removed ${label}.`;
+    case "move":
+      if (!manager.moveAccount(index, action.to - 1)) {
+        throw new Error(`Cannot move to position ${action.to} (have ${count}).`);
+      }
+      return `Moved ${label} to position ${action.to}.`;
+    case "disable":
+      if (!manager.setAccountDisabled(index, true)) {
+        throw new Error("Cannot disable the last enabled account.");
+      }
+      return `Disabled ${label}.`;
+    case "enable":
+      manager.setAccountDisabled(index, false);
+      return `Enabled ${label}.`;
+    case "groups":
+      manager.setAccountGroups(index, action.groups);
+      return account.groups
+        ? `Set groups of ${label} to ${account.groups.join(", ")}.`
+        : `Cleared groups of ${label}.`;
+  }
+}
+
+/**
+ * Signs out of one account (1-based position) or all of them: revokes each refresh token with Google,
+ * drops the accounts from storage and opencode's auth record, and clears the cached tokens and project
+ * contexts. Accounts are removed locally even when revocation fails.
+ */
+export async function logoutAccounts(
+  manager: AccountManager,
+  client: PluginClient,
+  target: number | "all",
+): Promise<string> {
+  const accounts = manager.getAccounts();
+  const selected = target === "all" ? accounts : accounts.filter((account) => account.index === target - 1);
+  if (selected.length === 0) {
+    throw new Error(`No account at position ${target} (have ${accounts.length}).`);
+  }
+
+  const revokeFailures: string[] = [];
+  for (const account of selected) {
+    const revoked = await revokeRefreshToken(account.parts.refreshToken);
+    if (!revoked) {
+      revokeFailures.push(describeAccount(account));
+    }
+    const refresh = formatRefreshParts(account.parts);
+    clearCachedAuth(refresh);
+    invalidateProjectContextCache(refresh);
+  }
+
+  for (const account of [...selected].sort((a, b) => b.index - a.index)) {
+    manager.removeAccount(account.index);
+  }
+
+  if (manager.getAccountCount() === 0) {
+    clearCachedAuth();
+    invalidateProjectContextCache();
+    await clearAccounts();
+    await client.auth.set({
+      path: { id: ANTIGRAVITY_PROVIDER_ID },
+      body: { type: "oauth", refresh: "", access: "", expires: 0 },
+    });
+  } else {
+    await persistAccountManager(manager, client);
+  }
+
+  log.info("Logged out", { accountCount: selected.length, remaining: manager.getAccountCount(), revokeFailures: revokeFailures.length });
+
+  const summary = `Logged out of ${selected.length === 1 ? describeAccount(selected[0]!) : `${selected.length} accounts`}.`;
+  return revokeFailures.length > 0
+    ? `${summary} Token revocation failed for ${revokeFailures.join(", ")}; revoke access manually at https://myaccount.google.com/permissions.`
+    : summary;
+}
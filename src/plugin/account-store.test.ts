@@ -0,0 +1,94 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { getSharedAccountManager, resetSharedAccountManager } from "./account-store";
+import { getFamilyRateLimitKey } from "./quota-groups";
+import { saveAccounts, type AccountStorage } from "./storage";
+import type { OAuthAuthDetails } from "./types";
+
+const auth: OAuthAuthDetails = { type: "oauth", refresh: "refresh_1|project_1", access: "", expires: 0 };
+
+function storageWith(...refreshTokens: string[]): AccountStorage {
+  return {
+    version: 4,
+    accounts: refreshTokens.map((refreshToken) => ({ refreshToken, addedAt: 1, lastUsed: 0 })),
+    activeIndex: 0,
+  };
+}
+
+describe("shared account manager", () => {
+  const originalDataHome = process.env.XDG_DATA_HOME;
+  let dataHome: string;
+
+  beforeAll(() => {
+    dataHome = mkdtempSync(join(tmpdir(), "antigravity-accounts-"));
+    process.env.XDG_DATA_HOME = dataHome;
+  });
+
+  afterEach(() => {
+    resetSharedAccountManager();
+    rmSync(join(dataHome, "opencode"), { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    process.env.XDG_DATA_HOME = originalDataHome;
+    rmSync(dataHome, { recursive: true, force: true });
+  });
+
+  it("returns the same manager while the file is unchanged", async () => {
+    await saveAccounts(storageWith("refresh_1", "refresh_2"));
+
+    const first = await getSharedAccountManager(auth);
+    const [second, third] = await Promise.all([getSharedAccountManager(auth), getSharedAccountManager(auth)]);
+
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(first.getAccountCount()).toBe(2);
+  });
+
+  it("does not reload after its own saves", async () => {
+    await saveAccounts(storageWith("refresh_1", "refresh_2"));
+    const manager = await getSharedAccountManager(auth);
+
+    manager.markRateLimited(manager.getAccounts()[0]!, 60_000, "claude");
+    await Promise.all([manager.save(), manager.save(), manager.save()]);
+
+    expect(await getSharedAccountManager(auth)).toBe(manager);
+  });
+
+  it("reloads when another writer changes the file", async () => {
+    await saveAccounts(storageWith("refresh_1"));
+    const manager = await getSharedAccountManager(auth);
+
+    await saveAccounts(storageWith("refresh_1", "refresh_2"));
+    const reloaded = await getSharedAccountManager(auth);
+
+    expect(reloaded).not.toBe(manager);
+    expect(reloaded.getAccountCount()).toBe(2);
+  });
+
+  it("reloads after a save that merged in another writer's changes", async () => {
+    await saveAccounts(storageWith("refresh_1"));
+    const manager = await getSharedAccountManager(auth);
+
+    await saveAccounts(storageWith("refresh_2"));
+    manager.markRateLimited(manager.getAccounts()[0]!, 60_000, "claude");
+    await manager.save();
+
+    const reloaded = await getSharedAccountManager(auth);
+    expect(reloaded).not.toBe(manager);
+    expect(reloaded.getAccounts().map((account) => account.parts.refreshToken)).toEqual(["refresh_1", "refresh_2"]);
+    expect(reloaded.getAccounts()[0]?.rateLimitResetTimes[getFamilyRateLimitKey("claude")]).toBeGreaterThan(Date.now());
+  });
+
+  it("rebuilds from the refresh string when there is no file and the auth changes", async () => {
+    const manager = await getSharedAccountManager(auth);
+    expect(await getSharedAccountManager(auth)).toBe(manager);
+
+    const rebuilt = await getSharedAccountManager({ ...auth, refresh: "refresh_1|project_1||refresh_2|project_2" });
+    expect(rebuilt).not.toBe(manager);
+    expect(rebuilt.getAccountCount()).toBe(2);
+  });
+});
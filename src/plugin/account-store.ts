@@ -0,0 +1,50 @@
+import { AccountManager } from "./accounts";
+import { createLogger } from "./logger";
+import { getStorageFileStamp, loadAccounts } from "./storage";
+import type { OAuthAuthDetails } from "./types";
+
+const log = createLogger("account-store");
+
+// One manager per process, so concurrent requests see each other's rate limits and account switches.
+let shared: { manager: AccountManager; refresh: string } | null = null;
+let loading: Promise<AccountManager> | null = null;
+
+async function loadSharedAccountManager(auth: OAuthAuthDetails): Promise<AccountManager> {
+  // Stamp before reading: a write landing in between makes the next check reload again rather than miss it.
+  const stamp = await getStorageFileStamp();
+  const manager = new AccountManager(auth, await loadAccounts());
+  manager.storageStamp = stamp;
+  shared = { manager, refresh: auth.refresh };
+  log.debug("Loaded account pool", { accountCount: manager.getAccountCount() });
+  return manager;
+}
+
+/**
+ * The process-wide AccountManager. It is rebuilt only when antigravity-accounts.json changed since it was
+ * loaded or last saved by this manager, or, when there is no file, when opencode's refresh string changed.
+ * Concurrent callers share one reload.
+ */
+export async function getSharedAccountManager(auth: OAuthAuthDetails): Promise<AccountManager> {
+  const stamp = await getStorageFileStamp();
+  if (
+    shared &&
+    shared.manager.storageStamp === stamp &&
+    (stamp !== null || shared.refresh === auth.refresh)
+  ) {
+    return shared.manager;
+  }
+
+  if (!loading) {
+    loading = loadSharedAccountManager(auth).finally(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
+
+/**
+ * Drops the shared manager so the next caller loads from disk.
+ */
+export function resetSharedAccountManager(): void {
+  shared = null;
+}
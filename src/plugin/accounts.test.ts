@@ -1,5 +1,6 @@
-import { describe, it, expect } from "bun:test";
+import { afterEach, describe, it, expect } from "bun:test";
 import { AccountManager, type ModelFamily } from "./accounts";
+import { getFamilyRateLimitKey, parseQuotaGroups } from "./quota-groups";
 import type { OAuthAuthDetails } from "./types";
 
 const FAMILY: ModelFamily = "gemini-flash";
@@ -89,11 +90,11 @@ describe("AccountManager", () => {
     const manager = new AccountManager(auth);
     const account = manager.getCurrentOrNextForFamily(FAMILY);
 
-    account!.rateLimitResetTimes[FAMILY] = Date.now() - 1000;
+    account!.rateLimitResetTimes[getFamilyRateLimitKey(FAMILY)] = Date.now() - 1000;
 
     const next = manager.getCurrentOrNextForFamily(FAMILY);
     expect(next).not.toBeNull();
-    expect(next?.rateLimitResetTimes[FAMILY]).toBeUndefined();
+    expect(next?.rateLimitResetTimes[getFamilyRateLimitKey(FAMILY)]).toBeUndefined();
   });
 
   it("should calculate minimum wait time correctly", () => {
@@ -153,4 +154,187 @@ describe("AccountManager", () => {
     expect(geminiAccount).not.toBeNull();
     expect(geminiAccount?.index).toBe(0);
   });
+
+  it("should skip disabled accounts", () => {
+    const auth: OAuthAuthDetails = {
+      type: "oauth",
+      refresh: "refresh_1|project_1||refresh_2|project_2",
+      access: "access_1",
+      expires: Date.now() + 3600000,
+    };
+
+    const manager = new AccountManager(auth);
+    expect(manager.setAccountDisabled(0, true)).toBe(true);
+
+    const account = manager.getCurrentOrNextForFamily(FAMILY);
+    expect(account?.index).toBe(1);
+  });
+
+  it("should refuse to disable the last enabled account", () => {
+    const auth: OAuthAuthDetails = {
+      type: "oauth",
+      refresh: "refresh_1|project_1||refresh_2|project_2",
+      access: "access_1",
+      expires: Date.now() + 3600000,
+    };
+
+    const manager = new AccountManager(auth);
+    expect(manager.setAccountDisabled(0, true)).toBe(true);
+    expect(manager.setAccountDisabled(1, true)).toBe(false);
+    expect(manager.getAccounts()[1]?.disabled).toBeUndefined();
+  });
+
+  it("should keep the active account when reordering and removing", () => {
+    const auth: OAuthAuthDetails = {
+      type: "oauth",
+      refresh: "refresh_1|project_1||refresh_2|project_2||refresh_3|project_3",
+      access: "access_1",
+      expires: Date.now() + 3600000,
+    };
+
+    const manager = new AccountManager(auth);
+    manager.markSwitched(manager.getAccounts()[1]!, "rotation");
+
+    expect(manager.moveAccount(1, 2)).toBe(true);
+    expect(manager.getCurrentAccount()?.parts.refreshToken).toBe("refresh_2");
+    expect(manager.getCurrentAccount()?.index).toBe(2);
+
+    expect(manager.removeAccount(0)).toBe(true);
+    expect(manager.getCurrentAccount()?.parts.refreshToken).toBe("refresh_2");
+    expect(manager.getAccounts().map((a) => a.index)).toEqual([0, 1]);
+  });
+
+  it("should keep account IDs stable and restore the active account by ID", () => {
+    const auth: OAuthAuthDetails = {
+      type: "oauth",
+      refresh: "refresh_1|project_1||refresh_2|project_2",
+      access: "access_1",
+      expires: Date.now() + 3600000,
+    };
+
+    const manager = new AccountManager(auth, {
+      version: 4,
+      activeIndex: 0,
+      activeAccountId: "second",
+      accounts: [
+        { id: "first", refreshToken: "refresh_1", addedAt: 1, lastUsed: 0 },
+        { id: "second", refreshToken: "refresh_2", addedAt: 1, lastUsed: 0 },
+      ],
+    });
+    expect(manager.getCurrentAccount()?.id).toBe("second");
+
+    const second = manager.getCurrentAccount()!;
+    manager.updateAccount(second, "access_2", Date.now() + 3600000, { refreshToken: "rotated_2" });
+    manager.removeAccount(0);
+
+    expect(manager.getAccountById("second")).toBe(second);
+    expect(second.index).toBe(0);
+    expect(manager.getCurrentAccount()).toBe(second);
+  });
+
+  it("should skip accounts that need re-authentication", () => {
+    const auth: OAuthAuthDetails = {
+      type: "oauth",
+      refresh: "refresh_1|project_1||refresh_2|project_2",
+      access: "access_1",
+      expires: Date.now() + 3600000,
+    };
+
+    const manager = new AccountManager(auth);
+    manager.markNeedsReauth(manager.getAccounts()[0]!);
+
+    expect(manager.getCurrentOrNextForFamily(FAMILY)?.index).toBe(1);
+    expect(manager.hasUsableAccounts()).toBe(true);
+
+    manager.markNeedsReauth(manager.getAccounts()[1]!);
+    expect(manager.hasUsableAccounts()).toBe(false);
+    expect(manager.getCurrentOrNextForFamily(FAMILY)).toBeNull();
+  });
+
+  it("should skip accounts known to lack access to the requested model", () => {
+    const auth: OAuthAuthDetails = {
+      type: "oauth",
+      refresh: "refresh_1|project_1||refresh_2|project_2",
+      access: "access_1",
+      expires: Date.now() + 3600000,
+    };
+
+    const manager = new AccountManager(auth);
+    const first = manager.getAccounts()[0]!;
+    expect(manager.markModelSupport(first, "gemini-3-pro-preview", false)).toBe(true);
+    expect(manager.markModelSupport(first, "gemini-3-pro-preview", false)).toBe(false);
+
+    expect(manager.getCurrentOrNextForFamily(FAMILY, "gemini-3-pro-preview")?.index).toBe(1);
+    expect(manager.getCurrentOrNextForFamily(FAMILY, "gemini-2.5-pro")?.index).toBe(1);
+    expect(manager.hasOtherAccountForModel(manager.getAccounts()[1]!, "gemini-3-pro-preview")).toBe(false);
+  });
+
+  it("should fall back to all accounts when none is known to support the model", () => {
+    const auth: OAuthAuthDetails = {
+      type: "oauth",
+      refresh: "refresh_1|project_1||refresh_2|project_2",
+      access: "access_1",
+      expires: Date.now() + 3600000,
+    };
+
+    const manager = new AccountManager(auth);
+    for (const account of manager.getAccounts()) {
+      manager.markModelSupport(account, "gemini-3-pro-preview", false);
+    }
+
+    expect(manager.getCurrentOrNextForFamily(FAMILY, "gemini-3-pro-preview")).not.toBeNull();
+  });
+});
+
+describe("per-model rate limits", () => {
+  const auth: OAuthAuthDetails = {
+    type: "oauth",
+    refresh: "refresh_1|project_1||refresh_2|project_2",
+    access: "access_1",
+    expires: Date.now() + 3600000,
+  };
+
+  afterEach(() => {
+    delete process.env.ANTIGRAVITY_QUOTA_GROUPS;
+  });
+
+  it("should only block the backend model that was rate-limited", () => {
+    const manager = new AccountManager(auth);
+    const first = manager.getAccounts()[0]!;
+    manager.markRateLimited(first, 60000, "claude", "gemini-claude-opus-4-5-thinking");
+
+    expect(first.rateLimitResetTimes["claude-opus-4-5-thinking"]).toBeGreaterThan(Date.now());
+    expect(manager.getCurrentOrNextForFamily("claude", "gemini-claude-opus-4-5-thinking")?.index).toBe(1);
+    expect(manager.isRateLimited(first, "claude", "gemini-claude-sonnet-4-5")).toBe(false);
+    expect(manager.getMinWaitTimeForFamily("claude", "gemini-claude-sonnet-4-5")).toBe(0);
+  });
+
+  it("should share a rate limit within a quota group", () => {
+    process.env.ANTIGRAVITY_QUOTA_GROUPS = "gemini-3-pro=gemini-3-pro-high,gemini-3-pro-low";
+    const manager = new AccountManager(auth);
+    const [first, second] = manager.getAccounts();
+    manager.markRateLimited(first!, 60000, "gemini-pro", "gemini-3-pro-preview");
+    manager.markRateLimited(second!, 30000, "gemini-pro", "gemini-3-pro-low");
+
+    expect(first!.rateLimitResetTimes["gemini-3-pro"]).toBeDefined();
+    expect(manager.getCurrentOrNextForFamily("gemini-pro", "gemini-3-pro-high")).toBeNull();
+    expect(manager.getMinWaitTimeForFamily("gemini-pro", "gemini-3-pro-high")).toBeGreaterThan(25000);
+    expect(manager.getCurrentOrNextForFamily("gemini-pro", "gemini-3-pro-image")).not.toBeNull();
+  });
+
+  it("should apply migrated family limits to every model of the family", () => {
+    const manager = new AccountManager(auth);
+    const first = manager.getAccounts()[0]!;
+    first.rateLimitResetTimes[getFamilyRateLimitKey("claude")] = Date.now() + 60000;
+
+    expect(manager.isRateLimited(first, "claude", "gemini-claude-sonnet-4-5")).toBe(true);
+    expect(manager.isRateLimited(first, "gemini-flash", "gemini-2.5-flash")).toBe(false);
+  });
+
+  it("should parse quota groups by backend model name", () => {
+    expect(parseQuotaGroups("opus=gemini-claude-opus-4-5-thinking,claude-opus-4-5; bad ;=x")).toEqual({
+      "claude-opus-4-5-thinking": "opus",
+      "claude-opus-4-5": "opus",
+    });
+  });
 });
@@ -5,37 +5,74 @@ import {
   parseRefreshParts,
   formatRefreshParts,
 } from "./auth";
-import { saveAccounts, type AccountStorage, type RateLimitState, type ModelFamily, type AccountTier } from "./storage";
+import {
+  getSelectionConfig,
+  getSelectionStrategy,
+  resolveStrategyName,
+  type SelectionConfig,
+  type SelectionStrategy,
+} from "./selection";
+import { getAccountCircuitKey, isCircuitAllowed } from "./circuit-breaker";
+import { getFamilyRateLimitKey, getRateLimitKey } from "./quota-groups";
+import { isAccountInGroups } from "./workspace-groups";
+import { createAccountId, saveAccounts, type AccountStorage, type SaveAccountsOptions, type RateLimitState, type ModelFamily, type AccountTier } from "./storage";
 
 export type { ModelFamily, AccountTier } from "./storage";
 
 export interface ManagedAccount {
+  /** Stable across reordering, removals and token rotation; use it to key per-account state. */
+  id: string;
+  /** Position in the pool. Changes when accounts are removed or moved. */
   index: number;
   parts: RefreshParts;
   access?: string;
   expires?: number;
   rateLimitResetTimes: RateLimitState;
   lastUsed: number;
+  addedAt: number;
   email?: string;
   tier?: AccountTier;
+  disabled?: boolean;
+  needsReauth?: boolean;
   lastSwitchReason?: "rate-limit" | "initial" | "rotation";
+  modelCapabilities?: Record<string, boolean>;
+  refreshTokenUpdatedAt?: number;
+  groups?: string[];
 }
 
-function isRateLimitedForFamily(account: ManagedAccount, family: ModelFamily): boolean {
-  const resetTime = account.rateLimitResetTimes[family];
-  return resetTime !== undefined && Date.now() < resetTime;
+/**
+ * How an account is named in logs and toasts: its email, else its ID.
+ */
+export function getAccountLabel(account: ManagedAccount): string {
+  return account.email || `account ${account.id}`;
+}
+
+function isRateLimited(account: ManagedAccount, family: ModelFamily, model?: string): boolean {
+  const now = Date.now();
+  return [getRateLimitKey(family, model), getFamilyRateLimitKey(family)].some((key) => {
+    const resetTime = account.rateLimitResetTimes[key];
+    return resetTime !== undefined && now < resetTime;
+  });
+}
+
+function isUsable(account: ManagedAccount): boolean {
+  return !account.disabled && !account.needsReauth;
+}
+
+function supportsModel(account: ManagedAccount, model: string): boolean {
+  return account.modelCapabilities?.[model] !== false;
+}
+
+function isAvailableFor(account: ManagedAccount, family: ModelFamily, model?: string): boolean {
+  return isUsable(account) && !isRateLimited(account, family, model);
 }
 
 function clearExpiredRateLimits(account: ManagedAccount): void {
   const now = Date.now();
-  if (account.rateLimitResetTimes.claude !== undefined && now >= account.rateLimitResetTimes.claude) {
-    delete account.rateLimitResetTimes.claude;
-  }
-  if (account.rateLimitResetTimes["gemini-flash"] !== undefined && now >= account.rateLimitResetTimes["gemini-flash"]) {
-    delete account.rateLimitResetTimes["gemini-flash"];
-  }
-  if (account.rateLimitResetTimes["gemini-pro"] !== undefined && now >= account.rateLimitResetTimes["gemini-pro"]) {
-    delete account.rateLimitResetTimes["gemini-pro"];
+  for (const [key, resetTime] of Object.entries(account.rateLimitResetTimes)) {
+    if (now >= resetTime) {
+      delete account.rateLimitResetTimes[key];
+    }
   }
 }
 
@@ -45,135 +82,233 @@ function clearExpiredRateLimits(account: ManagedAccount): void {
 export class AccountManager {
   private accounts: ManagedAccount[] = [];
   private currentIndex = 0;
-  private currentAccountIndex = -1;
-
-  constructor(auth: OAuthAuthDetails, storedAccounts?: AccountStorage | null) {
+  private currentAccountId: string | null = null;
+  /** Account ID → removal time, persisted so other processes drop the account too. */
+  private removedAccounts: Record<string, number> = {};
+  private saveQueue: Promise<void> = Promise.resolve();
+  private queuedSave: Promise<void> | null = null;
+
+  /**
+   * Stamp (see getStorageFileStamp) of the account file this manager's state matches: set when loaded and
+   * advanced by saves that found no other write in between. Null when unknown or when there is no file.
+   */
+  storageStamp: string | null = null;
+
+  /**
+   * `selection` picks a strategy per model family; it defaults to ANTIGRAVITY_ACCOUNT_SELECTION.
+   */
+  constructor(
+    auth: OAuthAuthDetails | null,
+    storedAccounts?: AccountStorage | null,
+    private readonly selection: SelectionConfig = getSelectionConfig(),
+  ) {
+    this.removedAccounts = { ...storedAccounts?.removedAccounts };
     if (storedAccounts && storedAccounts.accounts.length > 0) {
+      const byId = storedAccounts.activeAccountId
+        ? storedAccounts.accounts.findIndex((acc) => acc.id === storedAccounts.activeAccountId)
+        : -1;
       const activeIndex =
-        typeof storedAccounts.activeIndex === "number" &&
-        storedAccounts.activeIndex >= 0 &&
-        storedAccounts.activeIndex < storedAccounts.accounts.length
-          ? storedAccounts.activeIndex
-          : 0;
+        byId >= 0
+          ? byId
+          : typeof storedAccounts.activeIndex === "number" &&
+              storedAccounts.activeIndex >= 0 &&
+              storedAccounts.activeIndex < storedAccounts.accounts.length
+            ? storedAccounts.activeIndex
+            : 0;
 
-      this.currentAccountIndex = activeIndex;
       this.currentIndex = activeIndex;
 
       this.accounts = storedAccounts.accounts.map((acc, index) => ({
+        id: acc.id ?? createAccountId(acc.refreshToken),
         index,
         parts: {
           refreshToken: acc.refreshToken,
           projectId: acc.projectId,
           managedProjectId: acc.managedProjectId,
         },
-        access: index === activeIndex ? auth.access : undefined,
-        expires: index === activeIndex ? auth.expires : undefined,
+        access: index === activeIndex ? auth?.access : undefined,
+        expires: index === activeIndex ? auth?.expires : undefined,
         rateLimitResetTimes: acc.rateLimitResetTimes ?? {},
         lastUsed: acc.lastUsed,
+        addedAt: acc.addedAt,
         email: acc.email,
         tier: acc.tier,
+        disabled: acc.disabled,
+        needsReauth: acc.needsReauth,
         lastSwitchReason: acc.lastSwitchReason,
+        modelCapabilities: acc.modelCapabilities,
+        refreshTokenUpdatedAt: acc.refreshTokenUpdatedAt,
+        groups: acc.groups,
       }));
-    } else {
+      this.currentAccountId = this.accounts[activeIndex]?.id ?? null;
+    } else if (auth) {
       const multiAccount = parseMultiAccountRefresh(auth.refresh);
+      const now = Date.now();
 
-      this.currentAccountIndex = 0;
       this.currentIndex = 0;
 
       if (multiAccount.accounts.length > 0) {
         this.accounts = multiAccount.accounts.map((parts, index) => ({
+          id: createAccountId(parts.refreshToken),
           index,
           parts,
           access: index === 0 ? auth.access : undefined,
           expires: index === 0 ? auth.expires : undefined,
           rateLimitResetTimes: {},
           lastUsed: 0,
+          addedAt: now,
         }));
-      } else {
+      } else if (parseRefreshParts(auth.refresh).refreshToken) {
+        const parts = parseRefreshParts(auth.refresh);
         this.accounts.push({
+          id: createAccountId(parts.refreshToken),
           index: 0,
-          parts: parseRefreshParts(auth.refresh),
+          parts,
           access: auth.access,
           expires: auth.expires,
           rateLimitResetTimes: {},
           lastUsed: 0,
+          addedAt: now,
         });
       }
+      this.currentAccountId = this.accounts[0]?.id ?? null;
+    }
+  }
+
+  /**
+   * Persists the pool, merged with changes other processes saved meanwhile. Removed accounts stay removed;
+   * pass `replaceAccounts` to also drop accounts that only exist on disk.
+   */
+  save(options?: SaveAccountsOptions): Promise<void> {
+    // Saves run one at a time. A save requested while another is waiting joins it: the state is only
+    // captured once the write starts, so the waiting save covers both callers.
+    if (this.queuedSave && !options?.replaceAccounts) {
+      return this.queuedSave;
+    }
+    const run: Promise<void> = this.saveQueue
+      .catch(() => {})
+      .then(() => {
+        if (this.queuedSave === run) {
+          this.queuedSave = null;
+        }
+        return this.writeStorage(options);
+      });
+    this.saveQueue = run;
+    if (!options?.replaceAccounts) {
+      this.queuedSave = run;
     }
+    return run;
   }
 
-  async save(): Promise<void> {
+  private async writeStorage(options?: SaveAccountsOptions): Promise<void> {
     const storage: AccountStorage = {
-      version: 3,
+      version: 4,
       accounts: this.accounts.map((acc) => ({
+        id: acc.id,
         email: acc.email,
         tier: acc.tier,
         refreshToken: acc.parts.refreshToken,
         projectId: acc.parts.projectId,
         managedProjectId: acc.parts.managedProjectId,
-        addedAt: acc.lastUsed || Date.now(),
+        addedAt: acc.addedAt,
         lastUsed: acc.lastUsed,
+        disabled: acc.disabled || undefined,
+        needsReauth: acc.needsReauth || undefined,
         lastSwitchReason: acc.lastSwitchReason,
         rateLimitResetTimes: acc.rateLimitResetTimes,
+        modelCapabilities: acc.modelCapabilities,
+        refreshTokenUpdatedAt: acc.refreshTokenUpdatedAt,
+        groups: acc.groups,
       })),
-      activeIndex: Math.max(0, this.currentAccountIndex),
+      activeIndex: Math.max(0, this.getCurrentAccount()?.index ?? 0),
+      activeAccountId: this.getCurrentAccount()?.id,
+      removedAccounts: Object.keys(this.removedAccounts).length > 0 ? { ...this.removedAccounts } : undefined,
     };
 
-    await saveAccounts(storage);
+    const { previousStamp, stamp } = await saveAccounts(storage, options);
+    // Another writer got in since this manager last synced: the file now holds merged state this manager
+    // has not seen, so leave the stamp stale and let the owner reload.
+    if (previousStamp === this.storageStamp) {
+      this.storageStamp = stamp;
+    }
   }
 
   getCurrentAccount(): ManagedAccount | null {
-    if (this.currentAccountIndex >= 0 && this.currentAccountIndex < this.accounts.length) {
-      return this.accounts[this.currentAccountIndex] ?? null;
-    }
-    return null;
+    return this.accounts.find((account) => account.id === this.currentAccountId) ?? null;
+  }
+
+  getAccountById(id: string): ManagedAccount | null {
+    return this.accounts.find((account) => account.id === id) ?? null;
   }
 
   markSwitched(account: ManagedAccount, reason: "rate-limit" | "initial" | "rotation"): void {
     account.lastSwitchReason = reason;
-    this.currentAccountIndex = account.index;
+    this.currentAccountId = account.id;
   }
 
   getAccountCount(): number {
     return this.accounts.length;
   }
 
-  getCurrentOrNextForFamily(family: ModelFamily): ManagedAccount | null {
+  getSelectionStrategy(family: ModelFamily): SelectionStrategy {
+    return getSelectionStrategy(resolveStrategyName(this.selection, family));
+  }
+
+  /**
+   * Picks the account for the next request to `family` using the family's selection strategy.
+   * Paid accounts are always preferred over free ones when any are available. With `model`, rate limits
+   * are checked for that model's quota key rather than the whole family, and accounts known to lack
+   * access to it are skipped unless no other account is available. Accounts with an open circuit
+   * (see circuit-breaker.ts) are likewise skipped unless every candidate has one. With `groups`, only
+   * accounts in one of those groups are considered at all.
+   */
+  getCurrentOrNextForFamily(family: ModelFamily, model?: string, groups?: readonly string[]): ManagedAccount | null {
     this.accounts.forEach(clearExpiredRateLimits);
 
-    const current = this.getCurrentAccount();
-    if (current) {
-      if (!isRateLimitedForFamily(current, family)) {
-        const betterTierAvailable =
-          current.tier !== "paid" &&
-          this.accounts.some((a) => a.tier === "paid" && !isRateLimitedForFamily(a, family));
-
-        if (!betterTierAvailable) {
-          current.lastUsed = Date.now();
-          return current;
-        }
-      }
+    const pool = this.getAvailablePool(family, model, groups);
+    if (pool.length === 0) {
+      return null;
     }
 
-    const next = this.getNextForFamily(family);
-    if (next) {
-      this.currentAccountIndex = next.index;
-    }
-    return next;
-  }
+    const account = this.getSelectionStrategy(family).select(pool, {
+      family,
+      current: this.getCurrentAccount(),
+      nextCursor: () => this.currentIndex++,
+    });
 
-  getNextForFamily(family: ModelFamily): ManagedAccount | null {
-    const available = this.accounts.filter((a) => !isRateLimitedForFamily(a, family));
+    this.currentAccountId = account.id;
+    account.lastUsed = Date.now();
+    return account;
+  }
 
-    if (available.length === 0) {
+  /**
+   * Makes the account with `id` current and returns it if it can serve `family` and `model` right now:
+   * usable, in `groups`, not rate-limited, not known to lack the model, and with a closed circuit.
+   * Bypasses the selection strategy and the paid-first preference, e.g. to keep a conversation on the
+   * account that already holds its cache.
+   */
+  useAccountIfAvailable(id: string, family: ModelFamily, model?: string, groups?: readonly string[]): ManagedAccount | null {
+    const account = this.getAccountById(id);
+    if (!account || !isAccountInGroups(account, groups)) {
+      return null;
+    }
+    clearExpiredRateLimits(account);
+    if (
+      !isAvailableFor(account, family, model) ||
+      (model && !supportsModel(account, model)) ||
+      !isCircuitAllowed(getAccountCircuitKey(account.id))
+    ) {
       return null;
     }
 
-    // Prioritize paid accounts
-    const paidAvailable = available.filter((a) => a.tier === "paid");
-    const pool = paidAvailable.length > 0 ? paidAvailable : available;
+    this.currentAccountId = account.id;
+    account.lastUsed = Date.now();
+    return account;
+  }
 
-    const account = pool[this.currentIndex % pool.length];
+  getNextForFamily(family: ModelFamily, model?: string, groups?: readonly string[]): ManagedAccount | null {
+    const pool = this.getAvailablePool(family, model, groups);
+    const account = pool[this.currentIndex % Math.max(1, pool.length)];
     if (!account) {
       return null;
     }
@@ -183,14 +318,90 @@ export class AccountManager {
     return account;
   }
 
-  markRateLimited(account: ManagedAccount, retryAfterMs: number, family: ModelFamily): void {
-    account.rateLimitResetTimes[family] = Date.now() + retryAfterMs;
+  private getAvailablePool(family: ModelFamily, model?: string, groups?: readonly string[]): ManagedAccount[] {
+    let available = this.accounts.filter((a) => isAccountInGroups(a, groups) && isAvailableFor(a, family, model));
+    if (model) {
+      const capable = available.filter((a) => supportsModel(a, model));
+      if (capable.length > 0) {
+        available = capable;
+      }
+    }
+
+    // Skip accounts whose circuit is open, unless that leaves nothing to try
+    const healthy = available.filter((a) => isCircuitAllowed(getAccountCircuitKey(a.id)));
+    if (healthy.length > 0) {
+      available = healthy;
+    }
+
+    // Prioritize paid accounts
+    const paidAvailable = available.filter((a) => a.tier === "paid");
+    return paidAvailable.length > 0 ? paidAvailable : available;
+  }
+
+  /**
+   * Records whether an account can use a model. Returns true when this changed what was known.
+   */
+  markModelSupport(account: ManagedAccount, model: string, supported: boolean): boolean {
+    if (account.modelCapabilities?.[model] === supported) {
+      return false;
+    }
+    account.modelCapabilities = { ...account.modelCapabilities, [model]: supported };
+    return true;
+  }
+
+  /**
+   * Whether another usable account (rate-limited or not) might be able to serve `model`.
+   */
+  hasOtherAccountForModel(account: ManagedAccount, model: string, groups?: readonly string[]): boolean {
+    return this.accounts.some(
+      (a) => a !== account && isAccountInGroups(a, groups) && isUsable(a) && supportsModel(a, model),
+    );
+  }
+
+  /**
+   * Whether any account (in `groups`, if given) can serve requests once rate limits expire (not disabled,
+   * not awaiting re-auth).
+   */
+  hasUsableAccounts(groups?: readonly string[]): boolean {
+    return this.accounts.some((a) => isAccountInGroups(a, groups) && isUsable(a));
+  }
+
+  /**
+   * Flags an account whose refresh token was revoked so selection skips it until it is re-authenticated.
+   */
+  markNeedsReauth(account: ManagedAccount): void {
+    account.needsReauth = true;
+    account.access = undefined;
+    account.expires = undefined;
+  }
+
+  /**
+   * Rate-limits the account for `model` (or its quota group). Without a model the whole family is limited.
+   */
+  markRateLimited(account: ManagedAccount, retryAfterMs: number, family: ModelFamily, model?: string): void {
+    account.rateLimitResetTimes[getRateLimitKey(family, model)] = Date.now() + retryAfterMs;
+  }
+
+  isRateLimited(account: ManagedAccount, family: ModelFamily, model?: string): boolean {
+    return isRateLimited(account, family, model);
+  }
+
+  /**
+   * When the account's rate limit for `model` (or its quota group) and for the whole family ends, whichever
+   * is later. 0 when neither is set.
+   */
+  getRateLimitResetTime(account: ManagedAccount, family: ModelFamily, model?: string): number {
+    const keys = [getRateLimitKey(family, model), getFamilyRateLimitKey(family)];
+    return Math.max(...keys.map((key) => account.rateLimitResetTimes[key] ?? 0));
   }
 
   updateAccount(account: ManagedAccount, access: string, expires: number, parts?: RefreshParts): void {
     account.access = access;
     account.expires = expires;
     if (parts) {
+      if (parts.refreshToken !== account.parts.refreshToken) {
+        account.refreshTokenUpdatedAt = Date.now();
+      }
       account.parts = parts;
     }
   }
@@ -211,12 +422,14 @@ export class AccountManager {
 
   addAccount(parts: RefreshParts, access?: string, expires?: number, email?: string, tier?: AccountTier): void {
     this.accounts.push({
+      id: createAccountId(parts.refreshToken),
       index: this.accounts.length,
       parts,
       access,
       expires,
       rateLimitResetTimes: {},
       lastUsed: 0,
+      addedAt: Date.now(),
       email,
       tier,
     });
@@ -226,11 +439,69 @@ export class AccountManager {
     if (index < 0 || index >= this.accounts.length) {
       return false;
     }
-    this.accounts.splice(index, 1);
-    this.accounts.forEach((acc, idx) => (acc.index = idx));
+    const current = this.getCurrentAccount();
+    const [removed] = this.accounts.splice(index, 1);
+    this.removedAccounts[removed!.id] = Date.now();
+    this.reindex(current);
     return true;
   }
 
+  /**
+   * Moves an account to a new position while keeping the active account pointer on the same account.
+   */
+  moveAccount(from: number, to: number): boolean {
+    if (from < 0 || from >= this.accounts.length || to < 0 || to >= this.accounts.length) {
+      return false;
+    }
+    const current = this.getCurrentAccount();
+    const [moved] = this.accounts.splice(from, 1);
+    if (!moved) {
+      return false;
+    }
+    this.accounts.splice(to, 0, moved);
+    this.reindex(current);
+    return true;
+  }
+
+  /**
+   * Replaces the account's groups; an empty list clears them.
+   */
+  setAccountGroups(index: number, groups: string[]): boolean {
+    const account = this.accounts[index];
+    if (!account) {
+      return false;
+    }
+    const unique = [...new Set(groups.map((group) => group.trim()).filter(Boolean))];
+    account.groups = unique.length > 0 ? unique : undefined;
+    return true;
+  }
+
+  /**
+   * Disabled accounts stay in storage but are never selected for requests.
+   * Refuses to disable the last enabled account.
+   */
+  setAccountDisabled(index: number, disabled: boolean): boolean {
+    const account = this.accounts[index];
+    if (!account) {
+      return false;
+    }
+    if (disabled && !account.disabled && this.accounts.every((a) => a === account || a.disabled)) {
+      return false;
+    }
+    account.disabled = disabled || undefined;
+    return true;
+  }
+
+  private reindex(current: ManagedAccount | null): void {
+    this.accounts.forEach((acc, idx) => (acc.index = idx));
+    if (this.accounts.length === 0) {
+      this.currentAccountId = null;
+      this.currentIndex = 0;
+      return;
+    }
+    this.currentAccountId = current && this.accounts.includes(current) ? current.id : this.accounts[0]!.id;
+  }
+
   getAccounts(): ManagedAccount[] {
     return [...this.accounts];
   }
@@ -244,18 +515,19 @@ export class AccountManager {
     };
   }
 
-  getMinWaitTimeForFamily(family: ModelFamily): number {
-    const available = this.accounts.filter((a) => {
+  getMinWaitTimeForFamily(family: ModelFamily, model?: string, groups?: readonly string[]): number {
+    const usable = this.accounts.filter((a) => isAccountInGroups(a, groups) && isUsable(a));
+    const available = usable.filter((a) => {
       clearExpiredRateLimits(a);
-      return !isRateLimitedForFamily(a, family);
+      return !isRateLimited(a, family, model);
     });
     if (available.length > 0) {
       return 0;
     }
 
-    const waitTimes = this.accounts
-      .map((a) => a.rateLimitResetTimes[family])
-      .filter((t): t is number => t !== undefined)
+    const waitTimes = usable
+      .map((a) => this.getRateLimitResetTime(a, family, model))
+      .filter((t) => t > 0)
       .map((t) => Math.max(0, t - Date.now()));
 
     return waitTimes.length > 0 ? Math.min(...waitTimes) : 0;
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, mock } from "bun:test";
+
+import { probeModelAccess } from "./capabilities";
+import { isModelAccessError } from "./request-helpers";
+
+describe("isModelAccessError", () => {
+  it("recognises missing model access", () => {
+    expect(
+      isModelAccessError(404, { error: { message: "Requested entity was not found: models/gemini-3-pro-preview" } }, "gemini-3-pro-preview"),
+    ).toBe(true);
+    expect(isModelAccessError(403, { error: { message: "Your account does not have preview access." } })).toBe(true);
+  });
+
+  it("ignores other errors", () => {
+    expect(isModelAccessError(403, { error: { message: "Permission denied on project my-project." } }, "gemini-2.5-pro")).toBe(false);
+    expect(isModelAccessError(429, { error: { message: "gemini-2.5-pro quota exhausted" } }, "gemini-2.5-pro")).toBe(false);
+  });
+});
+
+describe("probeModelAccess", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("records granted and denied models and skips inconclusive ones", async () => {
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      const { model } = JSON.parse(init?.body as string) as { model: string };
+      if (model === "gemini-2.5-flash") {
+        return new Response(JSON.stringify({ response: {} }), { status: 200 });
+      }
+      if (model.startsWith("gemini-3")) {
+        return new Response(JSON.stringify({ error: { message: `Model ${model} not found` } }), { status: 404 });
+      }
+      return new Response(JSON.stringify({ error: { message: "Resource exhausted" } }), { status: 429 });
+    }) as unknown as typeof fetch;
+
+    const result = await probeModelAccess("access", "project", ["gemini-2.5-flash", "gemini-3-pro-preview", "gemini-2.5-pro"]);
+
+    expect(result).toEqual({ "gemini-2.5-flash": true, "gemini-3-pro-preview": false });
+  });
+});
@@ -0,0 +1,69 @@
+import { CODE_ASSIST_HEADERS, ENV_PROBE_MODELS } from "../constants";
+import { getPreferredEndpoint } from "./endpoint-health";
+import { createLogger } from "./logger";
+import { resolveModelName } from "./request";
+import { isModelAccessError, type GeminiApiBody } from "./request-helpers";
+
+const log = createLogger("capabilities");
+
+const PROBE_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Models to probe at login, from ANTIGRAVITY_PROBE_MODELS (comma-separated). Empty disables probing.
+ */
+export function getProbeModels(): string[] {
+  return (process.env[ENV_PROBE_MODELS] ?? "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Sends a one-token request per model and records which ones the account can use. Models that fail for
+ * any other reason (rate limits, network errors) are left out so they are learned from real traffic instead.
+ */
+export async function probeModelAccess(
+  accessToken: string,
+  projectId: string,
+  models: string[],
+): Promise<Record<string, boolean>> {
+  const capabilities: Record<string, boolean> = {};
+
+  for (const model of models) {
+    try {
+      const response = await fetch(`${getPreferredEndpoint()}/v1internal:generateContent`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+          ...CODE_ASSIST_HEADERS,
+        },
+        body: JSON.stringify({
+          project: projectId,
+          model: resolveModelName(model),
+          request: {
+            contents: [{ role: "user", parts: [{ text: "hi" }] }],
+            generationConfig: { maxOutputTokens: 1 },
+          },
+        }),
+        signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      });
+
+      if (response.ok) {
+        capabilities[model] = true;
+        continue;
+      }
+
+      const body = (await response.json().catch(() => ({}))) as GeminiApiBody;
+      if (isModelAccessError(response.status, body, model)) {
+        capabilities[model] = false;
+      } else {
+        log.debug("Model probe inconclusive", { model, status: response.status });
+      }
+    } catch (error) {
+      log.debug("Model probe failed", { model, error: String(error) });
+    }
+  }
+
+  return capabilities;
+}
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it } from "bun:test";
+
+import { AccountManager } from "./accounts";
+import {
+  beginCircuitRequest,
+  getAccountCircuitKey,
+  getCircuitRetryAfterMs,
+  getCircuitStatus,
+  isCircuitAllowed,
+  listTrippedCircuits,
+  recordCircuitFailure,
+  recordCircuitSuccess,
+  releaseCircuitRequest,
+  resetCircuits,
+} from "./circuit-breaker";
+import type { OAuthAuthDetails } from "./types";
+
+const KEY = "endpoint:https://example.test";
+const NOW = 1_000_000;
+
+describe("circuit breaker", () => {
+  afterEach(() => {
+    resetCircuits();
+    delete process.env.ANTIGRAVITY_CIRCUIT_BREAKER;
+  });
+
+  it("opens once enough of the recent requests failed", () => {
+    recordCircuitFailure(KEY, NOW);
+    recordCircuitSuccess(KEY);
+    recordCircuitFailure(KEY, NOW);
+    expect(getCircuitStatus(KEY).state).toBe("closed");
+
+    recordCircuitFailure(KEY, NOW);
+    expect(getCircuitStatus(KEY)).toMatchObject({ state: "open", failures: 3, requests: 4 });
+    expect(isCircuitAllowed(KEY, NOW + 1000)).toBe(false);
+    expect(getCircuitRetryAfterMs(KEY, NOW)).toBe(30_000);
+  });
+
+  it("stays closed while failures are a minority", () => {
+    for (let i = 0; i < 4; i++) recordCircuitSuccess(KEY);
+    recordCircuitFailure(KEY, NOW);
+    for (let i = 0; i < 4; i++) recordCircuitSuccess(KEY);
+    recordCircuitFailure(KEY, NOW);
+    recordCircuitFailure(KEY, NOW);
+
+    expect(getCircuitStatus(KEY)).toMatchObject({ state: "closed", failures: 3, requests: 10 });
+  });
+
+  it("opens once failures are at least half of the recent requests", () => {
+    for (let i = 0; i < 3; i++) recordCircuitSuccess(KEY);
+    for (let i = 0; i < 3; i++) recordCircuitFailure(KEY, NOW);
+
+    expect(getCircuitStatus(KEY).state).toBe("open");
+  });
+
+  it("lets a single probe through after the open period and closes on success", () => {
+    for (let i = 0; i < 3; i++) recordCircuitFailure(KEY, NOW);
+
+    const later = NOW + 30_000;
+    expect(isCircuitAllowed(KEY, later)).toBe(true);
+    beginCircuitRequest(KEY, later);
+    expect(getCircuitStatus(KEY).state).toBe("half-open");
+    expect(isCircuitAllowed(KEY, later)).toBe(false);
+
+    recordCircuitSuccess(KEY);
+    expect(getCircuitStatus(KEY).state).toBe("closed");
+    expect(listTrippedCircuits()).toEqual([]);
+  });
+
+  it("reopens for twice as long when the probe fails", () => {
+    for (let i = 0; i < 3; i++) recordCircuitFailure(KEY, NOW);
+
+    const later = NOW + 30_000;
+    beginCircuitRequest(KEY, later);
+    recordCircuitFailure(KEY, later);
+
+    expect(getCircuitStatus(KEY).state).toBe("open");
+    expect(getCircuitRetryAfterMs(KEY, later)).toBe(60_000);
+  });
+
+  it("lets the next request probe when a probe ends without an outcome", () => {
+    for (let i = 0; i < 3; i++) recordCircuitFailure(KEY, NOW);
+
+    const later = NOW + 30_000;
+    beginCircuitRequest(KEY, later);
+    releaseCircuitRequest(KEY);
+
+    expect(getCircuitStatus(KEY).state).toBe("half-open");
+    expect(isCircuitAllowed(KEY, later + 1)).toBe(true);
+  });
+
+  it("does nothing when disabled", () => {
+    process.env.ANTIGRAVITY_CIRCUIT_BREAKER = "0";
+    for (let i = 0; i < 5; i++) recordCircuitFailure(KEY, NOW);
+
+    expect(isCircuitAllowed(KEY, NOW)).toBe(true);
+    expect(getCircuitStatus(KEY).state).toBe("closed");
+  });
+
+  it("keeps selection away from accounts with an open circuit unless all are open", () => {
+    const auth: OAuthAuthDetails = {
+      type: "oauth",
+      refresh: "refresh_1|project_1||refresh_2|project_2",
+      access: "",
+      expires: 0,
+    };
+    const manager = new AccountManager(auth);
+    const [first, second] = manager.getAccounts();
+
+    for (let i = 0; i < 3; i++) recordCircuitFailure(getAccountCircuitKey(first!.id));
+    expect(manager.getCurrentOrNextForFamily("claude")).toBe(second!);
+
+    for (let i = 0; i < 3; i++) recordCircuitFailure(getAccountCircuitKey(second!.id));
+    expect(manager.getCurrentOrNextForFamily("claude")).not.toBeNull();
+  });
+});
@@ -0,0 +1,202 @@
+import { ENV_CIRCUIT_BREAKER } from "../constants";
+import { createLogger } from "./logger";
+
+const log = createLogger("circuit-breaker");
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+/** Outcomes considered when computing the failure rate. */
+const WINDOW_SIZE = 10;
+/** Failures needed in the window before the rate is considered at all. */
+const MIN_FAILURES = 3;
+const FAILURE_RATE_THRESHOLD = 0.5;
+const BASE_OPEN_MS = 30 * 1000;
+const MAX_OPEN_MS = 10 * 60 * 1000;
+/** A half-open probe that never reported back (e.g. its process hung) stops blocking others after this long. */
+const PROBE_TIMEOUT_MS = 2 * 60 * 1000;
+
+interface Circuit {
+  state: CircuitState;
+  /** Most recent outcomes, oldest first; true means failure. */
+  outcomes: boolean[];
+  /** How many times in a row the circuit opened without a successful probe; drives the open period. */
+  trips: number;
+  openUntil: number;
+  probeStartedAt: number | null;
+}
+
+export interface CircuitStatus {
+  key: string;
+  state: CircuitState;
+  failures: number;
+  requests: number;
+  /** For open circuits: when the next probe is allowed. */
+  openUntil?: number;
+}
+
+const circuits = new Map<string, Circuit>();
+
+function isEnabled(): boolean {
+  return process.env[ENV_CIRCUIT_BREAKER] !== "0";
+}
+
+export function getAccountCircuitKey(accountId: string): string {
+  return `account:${accountId}`;
+}
+
+export function getEndpointCircuitKey(endpoint: string): string {
+  return `endpoint:${endpoint}`;
+}
+
+function getOpenPeriodMs(trips: number): number {
+  return Math.min(MAX_OPEN_MS, BASE_OPEN_MS * 2 ** Math.max(0, trips - 1));
+}
+
+function open(key: string, circuit: Circuit, now: number): void {
+  circuit.trips += 1;
+  circuit.state = "open";
+  circuit.openUntil = now + getOpenPeriodMs(circuit.trips);
+  circuit.probeStartedAt = null;
+  log.warn("Circuit opened", {
+    key,
+    trips: circuit.trips,
+    failures: circuit.outcomes.filter(Boolean).length,
+    requests: circuit.outcomes.length,
+    openForMs: circuit.openUntil - now,
+  });
+}
+
+/**
+ * Whether a request may be sent: always when closed; when open, once the open period has passed and no
+ * other probe is running. Does not change state; call beginCircuitRequest for the request actually sent.
+ */
+export function isCircuitAllowed(key: string, now: number = Date.now()): boolean {
+  const circuit = circuits.get(key);
+  if (!isEnabled() || !circuit || circuit.state === "closed") {
+    return true;
+  }
+  if (circuit.state === "open") {
+    return now >= circuit.openUntil;
+  }
+  return circuit.probeStartedAt === null || now - circuit.probeStartedAt > PROBE_TIMEOUT_MS;
+}
+
+/**
+ * Marks a request as sent. On a circuit whose open period has passed this makes it the half-open probe,
+ * and concurrent requests keep avoiding the circuit until the probe reports its outcome.
+ */
+export function beginCircuitRequest(key: string, now: number = Date.now()): void {
+  const circuit = circuits.get(key);
+  if (!isEnabled() || !circuit || circuit.state === "closed" || !isCircuitAllowed(key, now)) {
+    return;
+  }
+  if (circuit.state === "open") {
+    circuit.state = "half-open";
+    log.info("Circuit half-open, probing", { key });
+  }
+  circuit.probeStartedAt = now;
+}
+
+/**
+ * Ends a request that produced no outcome, e.g. because it was aborted. A half-open probe then stops
+ * blocking the circuit, so the next request probes again. Does nothing once an outcome was recorded.
+ */
+export function releaseCircuitRequest(key: string): void {
+  const circuit = circuits.get(key);
+  if (circuit?.state === "half-open") {
+    circuit.probeStartedAt = null;
+  }
+}
+
+function getOrCreateCircuit(key: string): Circuit {
+  let circuit = circuits.get(key);
+  if (!circuit) {
+    circuit = { state: "closed", outcomes: [], trips: 0, openUntil: 0, probeStartedAt: null };
+    circuits.set(key, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Counts a successful request, which the failure rate needs as much as the failures. Closes a circuit
+ * that was open or half-open.
+ */
+export function recordCircuitSuccess(key: string): void {
+  if (!isEnabled()) {
+    return;
+  }
+  const circuit = getOrCreateCircuit(key);
+  if (circuit.state !== "closed") {
+    log.info("Circuit closed after successful probe", { key });
+    circuits.delete(key);
+    return;
+  }
+  circuit.outcomes.push(false);
+  if (circuit.outcomes.length > WINDOW_SIZE) {
+    circuit.outcomes.shift();
+  }
+}
+
+/**
+ * Counts a failed request. A failed half-open probe reopens the circuit for twice as long as before;
+ * a closed circuit opens once at least half of the recent requests failed.
+ */
+export function recordCircuitFailure(key: string, now: number = Date.now()): void {
+  if (!isEnabled()) {
+    return;
+  }
+  const circuit = getOrCreateCircuit(key);
+  circuit.outcomes.push(true);
+  if (circuit.outcomes.length > WINDOW_SIZE) {
+    circuit.outcomes.shift();
+  }
+
+  if (circuit.state === "half-open") {
+    open(key, circuit, now);
+    return;
+  }
+  if (circuit.state === "open") {
+    return;
+  }
+
+  const failures = circuit.outcomes.filter(Boolean).length;
+  if (failures >= MIN_FAILURES && failures / circuit.outcomes.length >= FAILURE_RATE_THRESHOLD) {
+    open(key, circuit, now);
+  }
+}
+
+/**
+ * Time until an open circuit allows a probe; 0 when requests are allowed now.
+ */
+export function getCircuitRetryAfterMs(key: string, now: number = Date.now()): number {
+  const circuit = circuits.get(key);
+  if (!circuit || circuit.state !== "open" || !isEnabled()) {
+    return 0;
+  }
+  return Math.max(0, circuit.openUntil - now);
+}
+
+export function getCircuitStatus(key: string): CircuitStatus {
+  const circuit = circuits.get(key);
+  if (!circuit) {
+    return { key, state: "closed", failures: 0, requests: 0 };
+  }
+  return {
+    key,
+    state: circuit.state,
+    failures: circuit.outcomes.filter(Boolean).length,
+    requests: circuit.outcomes.length,
+    openUntil: circuit.state === "open" ? circuit.openUntil : undefined,
+  };
+}
+
+/**
+ * Every circuit that is not closed, for status output.
+ */
+export function listTrippedCircuits(): CircuitStatus[] {
+  return [...circuits.keys()].map(getCircuitStatus).filter((status) => status.state !== "closed");
+}
+
+export function resetCircuits(): void {
+  circuits.clear();
+}
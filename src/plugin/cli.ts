@@ -1,5 +1,6 @@
 import { createInterface } from "node:readline/promises";
 import { stdin as input, stdout as output } from "node:process";
+import type { AccountAction } from "./account-admin";
 
 /**
  * Prompts the user for a project ID via stdin/stdout.
@@ -14,6 +15,19 @@ export async function promptProjectId(): Promise<string> {
   }
 }
 
+/**
+ * Prompts for a service-account JSON key path via stdin/stdout. Blank means Application Default Credentials.
+ */
+export async function promptServiceAccountKeyPath(): Promise<string> {
+  const rl = createInterface({ input, output });
+  try {
+    const answer = await rl.question("Service account key file (leave blank to use Application Default Credentials): ");
+    return answer.trim();
+  } finally {
+    rl.close();
+  }
+}
+
 /**
  * Prompts user whether they want to add another account.
  * Returns true if they want to add another, false if done.
@@ -27,3 +41,109 @@ export async function promptAddAnotherAccount(currentCount: number): Promise<boo
     rl.close();
   }
 }
+
+/**
+ * Asks whether a login should replace the configured accounts instead of adding to them.
+ * Only typing "replace" confirms; anything else keeps them.
+ */
+export async function promptReplaceExistingAccounts(currentCount: number): Promise<boolean> {
+  const rl = createInterface({ input, output });
+  try {
+    const answer = await rl.question(
+      `\nYou have ${currentCount} account(s) configured. New logins are added to them. Type "replace" to remove them instead (Enter to keep): `,
+    );
+    return answer.trim().toLowerCase() === "replace";
+  } finally {
+    rl.close();
+  }
+}
+
+export type AccountMenuChoice =
+  | AccountAction
+  | { type: "add" }
+  | { type: "reauth"; position: number }
+  | { type: "import"; path?: string }
+  | { type: "logout"; target: number | "all" }
+  | { type: "done" };
+
+/**
+ * Parses a single line of account-menu input such as "a", "r 2", "m 3 1", "d 2", "e 2", "g 2 work,oss", "o 2", "o all",
+ * "reauth 2", "i ~/tokens.json", "l" or "q".
+ * Returns null when the input is not recognized.
+ */
+export function parseAccountMenuChoice(raw: string): AccountMenuChoice | null {
+  const [command = "", ...rest] = raw.trim().toLowerCase().split(/\s+/);
+  const numbers = rest.map((value) => Number.parseInt(value, 10));
+  const position = numbers[0];
+  const hasPosition = position !== undefined && Number.isInteger(position) && position > 0;
+
+  switch (command) {
+    case "":
+    case "q":
+    case "done":
+      return { type: "done" };
+    case "l":
+    case "list":
+      return { type: "list" };
+    case "a":
+    case "add":
+      return { type: "add" };
+    case "r":
+    case "remove":
+      return hasPosition ? { type: "remove", position } : null;
+    case "d":
+    case "disable":
+      return hasPosition ? { type: "disable", position } : null;
+    case "e":
+    case "enable":
+      return hasPosition ? { type: "enable", position } : null;
+    case "reauth":
+      return hasPosition ? { type: "reauth", position } : null;
+    case "g":
+    case "groups": {
+      // Group names are matched exactly, so take them from the raw input. No list clears the groups.
+      const list = raw.trim().split(/\s+/)[2] ?? "";
+      return hasPosition ? { type: "groups", position, groups: list.split(",").filter(Boolean) } : null;
+    }
+    case "i":
+    case "import": {
+      // Paths are case-sensitive, so take them from the raw input rather than the lowercased tokens.
+      const path = raw.trim().slice(command.length).trim();
+      return path ? { type: "import", path } : { type: "import" };
+    }
+    case "o":
+    case "logout":
+      if (rest[0] === "all") {
+        return { type: "logout", target: "all" };
+      }
+      return hasPosition ? { type: "logout", target: position } : null;
+    case "m":
+    case "move": {
+      const to = numbers[1];
+      return hasPosition && to !== undefined && Number.isInteger(to) && to > 0 ? { type: "move", position, to } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Prompts for the next account-menu action, re-asking until the input parses.
+ */
+export async function promptAccountMenuChoice(): Promise<AccountMenuChoice> {
+  const rl = createInterface({ input, output });
+  try {
+    while (true) {
+      const answer = await rl.question(
+        "\n[a]dd, [r]emove N, [m]ove N M, [d]isable N, [e]nable N, [g]roups N a,b, reauth N, [i]mport [PATH], l[o]gout N|all, [l]ist, [q] done: ",
+      );
+      const choice = parseAccountMenuChoice(answer);
+      if (choice) {
+        return choice;
+      }
+      console.log("Unrecognized command.");
+    }
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it } from "bun:test";
+
+import {
+  CODE_ASSIST_ENDPOINT_AUTOPUSH,
+  CODE_ASSIST_ENDPOINT_DAILY,
+  CODE_ASSIST_ENDPOINT_PROD,
+  ENV_ENDPOINT,
+  ENV_ENDPOINTS,
+} from "../constants";
+import {
+  getConfiguredEndpoints,
+  getEndpointOrder,
+  parseEndpointList,
+  recordEndpointResult,
+  resetEndpointHealth,
+} from "./endpoint-health";
+
+const ALL = [CODE_ASSIST_ENDPOINT_DAILY, CODE_ASSIST_ENDPOINT_AUTOPUSH, CODE_ASSIST_ENDPOINT_PROD];
+
+describe("endpoint health", () => {
+  afterEach(() => {
+    resetEndpointHealth();
+    delete process.env[ENV_ENDPOINTS];
+    delete process.env[ENV_ENDPOINT];
+  });
+
+  it("parses endpoint names and URLs, skipping invalid entries", () => {
+    expect(parseEndpointList("prod, https://example.test/ ,daily,not a url,prod")).toEqual([
+      CODE_ASSIST_ENDPOINT_PROD,
+      "https://example.test",
+      CODE_ASSIST_ENDPOINT_DAILY,
+    ]);
+  });
+
+  it("uses the configured list, else the defaults with the legacy endpoint first", () => {
+    expect(getConfiguredEndpoints()).toEqual(ALL);
+
+    process.env[ENV_ENDPOINT] = CODE_ASSIST_ENDPOINT_PROD;
+    expect(getConfiguredEndpoints()).toEqual([CODE_ASSIST_ENDPOINT_PROD, CODE_ASSIST_ENDPOINT_DAILY, CODE_ASSIST_ENDPOINT_AUTOPUSH]);
+
+    process.env[ENV_ENDPOINTS] = "autopush,prod";
+    expect(getConfiguredEndpoints()).toEqual([CODE_ASSIST_ENDPOINT_AUTOPUSH, CODE_ASSIST_ENDPOINT_PROD]);
+  });
+
+  it("moves failing endpoints back and prefers faster ones", () => {
+    expect(getEndpointOrder(undefined, ALL)).toEqual(ALL);
+
+    recordEndpointResult(CODE_ASSIST_ENDPOINT_DAILY, undefined, false);
+    recordEndpointResult(CODE_ASSIST_ENDPOINT_AUTOPUSH, undefined, true, 900);
+    recordEndpointResult(CODE_ASSIST_ENDPOINT_PROD, undefined, true, 300);
+
+    expect(getEndpointOrder(undefined, ALL)).toEqual([
+      CODE_ASSIST_ENDPOINT_PROD,
+      CODE_ASSIST_ENDPOINT_AUTOPUSH,
+      CODE_ASSIST_ENDPOINT_DAILY,
+    ]);
+  });
+
+  it("starts each account on its last good endpoint and skips what fails for it", () => {
+    recordEndpointResult(CODE_ASSIST_ENDPOINT_DAILY, "a1", false);
+    recordEndpointResult(CODE_ASSIST_ENDPOINT_AUTOPUSH, "a1", true, 500);
+    recordEndpointResult(CODE_ASSIST_ENDPOINT_DAILY, "a2", true, 800);
+    recordEndpointResult(CODE_ASSIST_ENDPOINT_DAILY, "a2", true, 800);
+    recordEndpointResult(CODE_ASSIST_ENDPOINT_DAILY, "a2", true, 800);
+    recordEndpointResult(CODE_ASSIST_ENDPOINT_PROD, "a3", true, 100);
+
+    expect(getEndpointOrder("a1", ALL)[0]).toBe(CODE_ASSIST_ENDPOINT_AUTOPUSH);
+    expect(getEndpointOrder("a2", ALL)[0]).toBe(CODE_ASSIST_ENDPOINT_DAILY);
+    expect(getEndpointOrder("a1", ALL)[2]).toBe(CODE_ASSIST_ENDPOINT_DAILY);
+  });
+
+  it("forgets results after ten minutes", () => {
+    recordEndpointResult(CODE_ASSIST_ENDPOINT_DAILY, undefined, false, undefined, 0);
+
+    expect(getEndpointOrder(undefined, ALL, 60_000)[0]).toBe(CODE_ASSIST_ENDPOINT_AUTOPUSH);
+    expect(getEndpointOrder(undefined, ALL, 11 * 60 * 1000)).toEqual(ALL);
+  });
+});
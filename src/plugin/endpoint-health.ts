@@ -0,0 +1,175 @@
+import {
+  CODE_ASSIST_ENDPOINT_AUTOPUSH,
+  CODE_ASSIST_ENDPOINT_DAILY,
+  CODE_ASSIST_ENDPOINT_FALLBACKS,
+  CODE_ASSIST_ENDPOINT_PROD,
+  ENV_ENDPOINT,
+  ENV_ENDPOINTS,
+} from "../constants";
+import { createLogger } from "./logger";
+
+const log = createLogger("endpoint-health");
+
+/** Weight of the newest result in the moving averages. */
+const HEALTH_ALPHA = 0.2;
+/** Below this success rate an endpoint is tried after the healthy ones. */
+const UNHEALTHY_SUCCESS_RATE = 0.5;
+/** Results older than this are forgotten, so an endpoint that was down gets another chance. */
+const HEALTH_TTL_MS = 10 * 60 * 1000;
+
+const ENDPOINT_NAMES: Record<string, string> = {
+  daily: CODE_ASSIST_ENDPOINT_DAILY,
+  autopush: CODE_ASSIST_ENDPOINT_AUTOPUSH,
+  prod: CODE_ASSIST_ENDPOINT_PROD,
+};
+
+export interface EndpointStats {
+  /** Moving average of successes (1) and failures (0). */
+  successRate: number;
+  /** Moving average time to response headers of successful requests. */
+  latencyMs?: number;
+  samples: number;
+  lastAt: number;
+}
+
+// Keyed by endpoint, and by `${accountId} ${endpoint}` for the same endpoint seen from one account.
+const statsByKey = new Map<string, EndpointStats>();
+const lastGoodEndpointByAccount = new Map<string, string>();
+
+function getStatsKey(endpoint: string, accountId?: string): string {
+  return accountId ? `${accountId} ${endpoint}` : endpoint;
+}
+
+/**
+ * Parses ANTIGRAVITY_ENDPOINTS: comma-separated endpoints in the order to try them, as URLs or as
+ * `daily`, `autopush` and `prod`. Invalid entries are logged and ignored.
+ */
+export function parseEndpointList(raw: string | undefined): string[] {
+  const endpoints: string[] = [];
+  if (!raw?.trim()) {
+    return endpoints;
+  }
+
+  for (const entry of raw.split(",")) {
+    const value = entry.trim();
+    if (!value) continue;
+    const endpoint = (ENDPOINT_NAMES[value.toLowerCase()] ?? value).replace(/\/+$/, "");
+    if (!/^https?:\/\/[^/]+$/.test(endpoint)) {
+      log.warn("Ignoring invalid endpoint entry", { entry: value });
+      continue;
+    }
+    if (!endpoints.includes(endpoint)) {
+      endpoints.push(endpoint);
+    }
+  }
+  return endpoints;
+}
+
+let cachedEnvEndpoints: { raw: string; endpoints: string[] } | undefined;
+
+/**
+ * Endpoints to use, in configured order: ANTIGRAVITY_ENDPOINTS, else the built-in daily → autopush → prod
+ * list with ANTIGRAVITY_ENDPOINT (if set) moved to the front.
+ */
+export function getConfiguredEndpoints(): string[] {
+  const raw = `${process.env[ENV_ENDPOINTS] ?? ""}|${process.env[ENV_ENDPOINT] ?? ""}`;
+  if (!cachedEnvEndpoints || cachedEnvEndpoints.raw !== raw) {
+    const configured = parseEndpointList(process.env[ENV_ENDPOINTS]);
+    const primary = parseEndpointList(process.env[ENV_ENDPOINT]);
+    const endpoints =
+      configured.length > 0
+        ? configured
+        : [...new Set([...primary, ...CODE_ASSIST_ENDPOINT_FALLBACKS])];
+    cachedEnvEndpoints = { raw, endpoints };
+  }
+  return cachedEnvEndpoints.endpoints;
+}
+
+function updateStats(key: string, ok: boolean, latencyMs: number | undefined, now: number): void {
+  const previous = statsByKey.get(key);
+  const fresh = previous && now - previous.lastAt <= HEALTH_TTL_MS ? previous : undefined;
+  const result = ok ? 1 : 0;
+  const stats: EndpointStats = fresh
+    ? { ...fresh, successRate: fresh.successRate * (1 - HEALTH_ALPHA) + result * HEALTH_ALPHA, samples: fresh.samples + 1 }
+    : { successRate: result, samples: 1, lastAt: now };
+  if (ok && latencyMs !== undefined) {
+    stats.latencyMs =
+      stats.latencyMs === undefined ? latencyMs : stats.latencyMs * (1 - HEALTH_ALPHA) + latencyMs * HEALTH_ALPHA;
+  }
+  stats.lastAt = now;
+  statsByKey.set(key, stats);
+}
+
+/**
+ * Records the outcome of one request to `endpoint`. A failure is a 403, 404, 5xx or network error;
+ * `latencyMs` is the time to response headers. Results with an account also count for that account.
+ */
+export function recordEndpointResult(
+  endpoint: string,
+  accountId: string | undefined,
+  ok: boolean,
+  latencyMs?: number,
+  now: number = Date.now(),
+): void {
+  updateStats(getStatsKey(endpoint), ok, latencyMs, now);
+  if (!accountId) {
+    return;
+  }
+  updateStats(getStatsKey(endpoint, accountId), ok, latencyMs, now);
+  if (ok) {
+    lastGoodEndpointByAccount.set(accountId, endpoint);
+  } else if (lastGoodEndpointByAccount.get(accountId) === endpoint) {
+    lastGoodEndpointByAccount.delete(accountId);
+  }
+}
+
+export function getEndpointStats(endpoint: string, accountId?: string, now: number = Date.now()): EndpointStats | undefined {
+  const stats = statsByKey.get(getStatsKey(endpoint, accountId));
+  return stats && now - stats.lastAt <= HEALTH_TTL_MS ? stats : undefined;
+}
+
+function isUnhealthy(stats: EndpointStats | undefined): boolean {
+  return !!stats && stats.successRate < UNHEALTHY_SUCCESS_RATE;
+}
+
+/**
+ * Orders endpoints for a request: the account's last good endpoint first, then endpoints that work,
+ * fastest first, then those not tried recently in configured order. Endpoints failing for everyone, then
+ * endpoints failing for the account, come last.
+ */
+export function getEndpointOrder(
+  accountId?: string,
+  endpoints: readonly string[] = getConfiguredEndpoints(),
+  now: number = Date.now(),
+): string[] {
+  const ranked = endpoints.map((endpoint, index) => {
+    const stats = getEndpointStats(endpoint, undefined, now);
+    const accountStats = accountId ? getEndpointStats(endpoint, accountId, now) : undefined;
+    // What the account saw itself outweighs what other accounts saw.
+    const tier = accountStats ? (isUnhealthy(accountStats) ? 2 : 0) : isUnhealthy(stats) ? 1 : 0;
+    return { endpoint, index, tier, latencyMs: stats?.latencyMs ?? Infinity };
+  });
+
+  const lastGood = accountId ? lastGoodEndpointByAccount.get(accountId) : undefined;
+  ranked.sort((a, b) => {
+    if (a.tier !== b.tier) return a.tier - b.tier;
+    if (a.tier === 0 && (a.endpoint === lastGood || b.endpoint === lastGood)) {
+      return a.endpoint === lastGood ? -1 : 1;
+    }
+    if (a.latencyMs !== b.latencyMs) return a.latencyMs - b.latencyMs;
+    return a.index - b.index;
+  });
+  return ranked.map(({ endpoint }) => endpoint);
+}
+
+/**
+ * The endpoint to use for single-shot calls (project lookup, search, quota), by the same health order.
+ */
+export function getPreferredEndpoint(accountId?: string): string {
+  return getEndpointOrder(accountId)[0] ?? CODE_ASSIST_ENDPOINT_PROD;
+}
+
+export function resetEndpointHealth(): void {
+  statsByKey.clear();
+  lastGoodEndpointByAccount.clear();
+}
@@ -0,0 +1,164 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, mock } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import * as constants from "../constants";
+import { ENV_ENDPOINTS, ENV_MAX_WAIT, ENV_MODEL_FALLBACKS } from "../constants";
+import { resetSharedAccountManager } from "./account-store";
+import { clearCachedAuth } from "./cache";
+import { getAccountCircuitKey, getCircuitStatus, recordCircuitFailure, resetCircuits } from "./circuit-breaker";
+import { resetEndpointHealth } from "./endpoint-health";
+import { createAntigravityFetch } from "./fetch-wrapper";
+import { createAccountId } from "./storage";
+import type { OAuthAuthDetails, PluginClient } from "./types";
+
+// Token requests need a client secret, which is normally read from the environment.
+mock.module("../constants", () => ({ ...constants, ANTIGRAVITY_CLIENT_SECRET: "test-client-secret" }));
+
+const auth: OAuthAuthDetails = {
+  type: "oauth",
+  refresh: "refresh_1|project_1||refresh_2|project_2",
+  access: "",
+  expires: 0,
+};
+
+const client = {
+  auth: { set: mock(async () => {}) },
+  tui: { showToast: mock(async () => {}) },
+} as unknown as PluginClient;
+
+const GENERATE_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-3-flash:generateContent";
+const PRO_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-high:generateContent";
+const STREAM_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-3-flash:streamGenerateContent?alt=sse";
+
+describe("antigravity fetch", () => {
+  const originalFetch = globalThis.fetch;
+  const originalDataHome = process.env.XDG_DATA_HOME;
+  let dataHome: string;
+
+  beforeAll(() => {
+    dataHome = mkdtempSync(join(tmpdir(), "antigravity-fetch-"));
+    process.env.XDG_DATA_HOME = dataHome;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    delete process.env[ENV_MAX_WAIT];
+    delete process.env[ENV_ENDPOINTS];
+    delete process.env[ENV_MODEL_FALLBACKS];
+    resetSharedAccountManager();
+    resetCircuits();
+    resetEndpointHealth();
+    clearCachedAuth();
+    rmSync(join(dataHome, "opencode"), { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    process.env.XDG_DATA_HOME = originalDataHome;
+    rmSync(dataHome, { recursive: true, force: true });
+  });
+
+  it("stops within the wait budget when every account gets server errors", async () => {
+    process.env[ENV_MAX_WAIT] = "1";
+    process.env[ENV_ENDPOINTS] = "prod";
+    let upstreamRequests = 0;
+    globalThis.fetch = mock(async (input: RequestInfo | URL) => {
+      if (String(input).startsWith("https://oauth2.googleapis.com/token")) {
+        return Response.json({ access_token: "ya29.test", expires_in: 3600 });
+      }
+      upstreamRequests += 1;
+      return Response.json({ error: { code: 503, message: "unavailable" } }, { status: 503 });
+    }) as unknown as typeof fetch;
+
+    const antigravityFetch = createAntigravityFetch(async () => auth, client);
+    const startedAt = Date.now();
+    const response = await antigravityFetch(GENERATE_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ contents: [{ role: "user", parts: [{ text: "hi" }] }] }),
+    });
+
+    expect(response.status).toBe(429);
+    expect(upstreamRequests).toBe(2);
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it("treats streams that end before the first event the same way", async () => {
+    process.env[ENV_MAX_WAIT] = "1";
+    process.env[ENV_ENDPOINTS] = "prod";
+    let upstreamRequests = 0;
+    globalThis.fetch = mock(async (input: RequestInfo | URL) => {
+      if (String(input).startsWith("https://oauth2.googleapis.com/token")) {
+        return Response.json({ access_token: "ya29.test", expires_in: 3600 });
+      }
+      upstreamRequests += 1;
+      return new Response(": keep-alive\n\n", { headers: { "Content-Type": "text/event-stream" } });
+    }) as unknown as typeof fetch;
+
+    const antigravityFetch = createAntigravityFetch(async () => auth, client);
+    const response = await antigravityFetch(STREAM_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ contents: [{ role: "user", parts: [{ text: "hi" }] }] }),
+    });
+
+    expect(response.status).toBe(429);
+    expect(upstreamRequests).toBe(2);
+  });
+
+  it("closes an account's circuit when its probe is answered with a 429", async () => {
+    process.env[ENV_MAX_WAIT] = "0";
+    process.env[ENV_ENDPOINTS] = "prod";
+    const circuitKey = getAccountCircuitKey(createAccountId("refresh_1"));
+    for (let i = 0; i < 3; i++) recordCircuitFailure(circuitKey, Date.now() - 60_000);
+    globalThis.fetch = mock(async (input: RequestInfo | URL) => {
+      if (String(input).startsWith("https://oauth2.googleapis.com/token")) {
+        return Response.json({ access_token: "ya29.test", expires_in: 3600 });
+      }
+      return Response.json({ error: { code: 429, message: "quota" } }, { status: 429 });
+    }) as unknown as typeof fetch;
+
+    const antigravityFetch = createAntigravityFetch(async () => ({ ...auth, refresh: "refresh_1|project_1" }), client);
+    const response = await antigravityFetch(GENERATE_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ contents: [{ role: "user", parts: [{ text: "hi" }] }] }),
+    });
+
+    expect(response.status).toBe(429);
+    expect(getCircuitStatus(circuitKey).state).toBe("closed");
+  });
+
+  it("falls back to the next model when a single account is rate-limited for longer than the threshold", async () => {
+    process.env[ENV_ENDPOINTS] = "prod";
+    process.env[ENV_MODEL_FALLBACKS] = "gemini-3-pro-high=gemini-3-flash";
+    const upstreamModels: string[] = [];
+    globalThis.fetch = mock(async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input).startsWith("https://oauth2.googleapis.com/token")) {
+        return Response.json({ access_token: "ya29.test", expires_in: 3600 });
+      }
+      const { model } = JSON.parse(String(init?.body)) as { model: string };
+      upstreamModels.push(model);
+      if (model === "gemini-3-pro-high") {
+        return Response.json(
+          { error: { code: 429, message: "quota" } },
+          { status: 429, headers: { "Retry-After": "3600" } },
+        );
+      }
+      return Response.json({ response: { candidates: [] } });
+    }) as unknown as typeof fetch;
+
+    const antigravityFetch = createAntigravityFetch(async () => ({ ...auth, refresh: "refresh_1|project_1" }), client);
+    const response = await antigravityFetch(PRO_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ contents: [{ role: "user", parts: [{ text: "hi" }] }] }),
+    });
+
+    expect(response.status).toBe(200);
+    // Reading the body ends the request, releasing the account's in-flight slot.
+    await response.text();
+    expect(upstreamModels).toEqual(["gemini-3-pro-high", "gemini-3-flash"]);
+  });
+});
@@ -1,20 +1,54 @@
 import type { PluginContext, GetAuth, ProjectContextResult } from "./types";
-import { CODE_ASSIST_ENDPOINT_FALLBACKS, ANTIGRAVITY_PROVIDER_ID } from "../constants";
-import { isOAuthAuth, accessTokenExpired, parseRefreshParts } from "./auth";
-import { AccountManager, type ModelFamily } from "./accounts";
-import { loadAccounts } from "./storage";
-import { refreshAccessToken } from "./token";
+import { ANTIGRAVITY_PROVIDER_ID } from "../constants";
+import { isOAuthAuth, accessTokenExpired } from "./auth";
+import { getAccountLabel, type AccountManager, type ManagedAccount, type ModelFamily } from "./accounts";
+import { getSharedAccountManager } from "./account-store";
+import {
+  beginCircuitRequest,
+  getAccountCircuitKey,
+  getCircuitRetryAfterMs,
+  getCircuitStatus,
+  getEndpointCircuitKey,
+  isCircuitAllowed,
+  recordCircuitFailure,
+  recordCircuitSuccess,
+  releaseCircuitRequest,
+} from "./circuit-breaker";
+import { getEndpointOrder, recordEndpointResult } from "./endpoint-health";
+import { TokenRevokedError } from "./token";
+import { hydrateAccountsFromCache, refreshAccountAccessToken } from "./refresh-scheduler";
 import { ensureProjectContext } from "./project";
-import { isGenerativeLanguageRequest, prepareAntigravityRequest, transformAntigravityResponse } from "./request";
-import { getSessionId } from "./request-helpers";
+import {
+  buildAntigravityRequest,
+  isGenerativeLanguageRequest,
+  resolveModelName,
+  transformAntigravityResponse,
+  withRequestCredentials,
+  type PreparedAntigravityRequest,
+  type PrepareRequestOptions,
+} from "./request";
+import { awaitStreamStart, getStreamIdleTimeoutMs, StreamStartError } from "./stream-supervisor";
+import { getSessionId, isModelAccessError, type GeminiApiBody, type GeminiUsageMetadata } from "./request-helpers";
 import { startAntigravityDebugRequest } from "./debug";
 import { createLogger, printAntigravityConsole } from "./logger";
+import { crossesProvider, getFallbackAfterMs, getModelFallbacks } from "./model-fallbacks";
+import { getModelFamilyFromModelName, recordRemainingQuota, refreshRemainingQuotaIfStale } from "./quota";
+import { getRateLimitKey } from "./quota-groups";
+import { beginAccountRequest } from "./selection";
+import { getAffinityAccountId, getConversationKey, isSessionAffinityEnabled, recordAffinity } from "./session-affinity";
+import { recordRequest, recordTokenUsage } from "./usage";
+import { createRateLimitedResponse, getMaxWaitMs } from "./wait-limits";
+import { assertWorkspaceHasAccounts, resolveAllowedGroups } from "./workspace-groups";
 
 const log = createLogger("fetch-wrapper");
 
 const RATE_LIMIT_BACKOFF_BASE_MS = 1000;
 const RATE_LIMIT_BACKOFF_MAX_MS = 60 * 60 * 1000;
 const RATE_LIMIT_SERVER_RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+/** Response header naming the model that answered, when a fallback replaced the requested one. */
+const MODEL_HEADER = "x-antigravity-model";
+/** How long an account cools down after a server error, while its circuit is still closed. */
+const SERVER_ERROR_RETRY_MS = 5000;
 
 interface RateLimitDelay {
   attempt: number;
@@ -42,20 +76,58 @@ function toUrlStr(value: RequestInfo | URL): string {
   return (value as Request).url ?? value.toString();
 }
 
+async function readRequestBody(input: RequestInfo, init: RequestInit | undefined): Promise<string | undefined> {
+  if (typeof init?.body === "string") {
+    return init.body;
+  }
+  if (typeof input !== "string" && !init?.body) {
+    return input.clone().text().catch(() => undefined);
+  }
+  return undefined;
+}
+
 function extractModelFromUrl(urlString: string): string | null {
   const match = urlString.match(/\/models\/([^:\/?]+)(?::\w+)?/);
   return match?.[1] ?? null;
 }
 
 function getModelFamilyFromUrl(urlString: string): ModelFamily {
-  const model = extractModelFromUrl(urlString);
-  if (model && model.includes("claude")) {
-    return "claude";
-  }
-  if (model && model.includes("flash")) {
-    return "gemini-flash";
+  return getModelFamilyFromModelName(extractModelFromUrl(urlString) ?? "");
+}
+
+/**
+ * Calls `release` once the response body has been fully read, cancelled or failed, so in-flight counts
+ * cover the whole stream rather than just the time to headers.
+ */
+function releaseWhenBodyDone(response: Response, release: () => void): Response {
+  if (!response.body) {
+    release();
+    return response;
   }
-  return "gemini-pro";
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
 }
 
 export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
@@ -315,19 +387,20 @@ interface EndpointLoopResult {
   error?: Error;
   retryAfterMs?: number;
   attemptInfo?: AttemptInfo;
+  /** Set when the account failed with server errors on every endpoint; see handleServerError. */
+  serverError?: boolean;
 }
 
 async function handleRateLimit(
   response: Response,
-  account: ReturnType<AccountManager["getCurrentOrNextForFamily"]> & {},
+  account: ManagedAccount,
   accountManager: AccountManager,
   accountCount: number,
   streaming: boolean,
   client: PluginContext["client"],
   debugContext: ReturnType<typeof startAntigravityDebugRequest>,
   requestedModel: string | undefined,
-  abortSignal: AbortSignal | undefined,
-  getRateLimitDelay: (accountIndex: number, serverRetryAfterMs: number | null) => RateLimitDelay,
+  getRateLimitDelay: (accountId: string, serverRetryAfterMs: number | null) => RateLimitDelay,
   family: ModelFamily,
 ): Promise<EndpointLoopResult> {
   const retryAfterHeaderMs = parseRetryAfterMs(response);
@@ -335,7 +408,7 @@ async function handleRateLimit(
   const retryAfterBodyMs = bodyInfo.retryDelayMs;
   const serverRetryAfterMs = retryAfterBodyMs ?? retryAfterHeaderMs;
 
-  const { attempt, delayMs, serverRetryAfterMs: appliedServerRetryMs } = getRateLimitDelay(account.index, serverRetryAfterMs);
+  const { attempt, delayMs, serverRetryAfterMs: appliedServerRetryMs } = getRateLimitDelay(account.id, serverRetryAfterMs);
   const retryAfterMs = delayMs;
   const waitTimeSec = Math.max(1, Math.ceil(retryAfterMs / 1000));
 
@@ -364,10 +437,11 @@ async function handleRateLimit(
       });
     } catch {}
 
-    accountManager.markRateLimited(account, retryAfterMs, family);
+    accountManager.markRateLimited(account, retryAfterMs, family, requestedModel);
+    recordRemainingQuota(account, family, 0);
 
-    log.info(`Account ${account.index + 1}/${accountCount} rate-limited`, {
-      fromAccountIndex: account.index,
+    log.info(`${getAccountLabel(account)} rate-limited`, {
+      fromAccountId: account.id,
       fromAccountEmail: account.email,
       accountCount,
       retryAfterMs,
@@ -395,7 +469,7 @@ async function handleRateLimit(
 
   if (retryAfterMs <= switchThresholdMs) {
     log.info("Rate-limited briefly; retrying same account", {
-      accountIndex: account.index,
+      accountId: account.id,
       accountEmail: account.email,
       accountCount,
       retryAfterMs,
@@ -417,14 +491,14 @@ async function handleRateLimit(
       });
     } catch {}
 
-    await sleepWithBackoff(retryAfterMs, abortSignal);
-    return { type: "retry-soon" };
+    return { type: "retry-soon", retryAfterMs };
   }
 
-  accountManager.markRateLimited(account, retryAfterMs, family);
+  accountManager.markRateLimited(account, retryAfterMs, family, requestedModel);
+  recordRemainingQuota(account, family, 0);
 
-  log.info(`Account ${account.index + 1}/${accountCount} rate-limited, switching...`, {
-    fromAccountIndex: account.index,
+  log.info(`${getAccountLabel(account)} rate-limited, switching...`, {
+    fromAccountId: account.id,
     fromAccountEmail: account.email,
     accountCount,
     retryAfterMs,
@@ -440,7 +514,7 @@ async function handleRateLimit(
   try {
     await client.tui.showToast({
       body: {
-        message: `Rate limited on ${account.email || `Account ${account.index + 1}`} (retry in ${formatWaitTimeMs(retryAfterMs)}). Switching...`,
+        message: `Rate limited on ${getAccountLabel(account)} (retry in ${formatWaitTimeMs(retryAfterMs)}). Switching...`,
         variant: "warning",
       },
     });
@@ -457,79 +531,184 @@ async function handleRateLimit(
   return { type: "rate-limit", retryAfterMs };
 }
 
+/**
+ * `failure` describes what went wrong on the last endpoint, e.g. "503 error".
+ */
 async function handleServerError(
-  response: Response,
-  account: ReturnType<AccountManager["getCurrentOrNextForFamily"]> & {},
+  failure: string,
+  account: ManagedAccount,
   accountManager: AccountManager,
   accountCount: number,
   client: PluginContext["client"],
+  requestedModel: string | undefined,
   family: ModelFamily,
 ): Promise<EndpointLoopResult> {
-  const retryAfterMs = 60000;
-
-  // For 500 errors, we use a fixed short retry (1 min) rather than the heavy defaults
-  accountManager.markRateLimited(account, retryAfterMs, family);
-
-  log.warn(`Account ${account.index + 1}/${accountCount} received ${response.status} error on all endpoints`, {
-    fromAccountIndex: account.index,
+  // Server errors count against the account's circuit: a few in a row stop selection from picking the
+  // account until a probe succeeds. Until then the account also cools down for the model, so selection
+  // moves on and, once every account failed, the request waits within its budget instead of spinning.
+  const circuitKey = getAccountCircuitKey(account.id);
+  recordCircuitFailure(circuitKey);
+  const retryAfterMs = getCircuitRetryAfterMs(circuitKey) || SERVER_ERROR_RETRY_MS;
+  accountManager.markRateLimited(account, retryAfterMs, family, requestedModel);
+
+  log.warn(`${getAccountLabel(account)} received ${failure} on all endpoints`, {
+    fromAccountId: account.id,
     fromAccountEmail: account.email,
     accountCount,
-    status: response.status,
+    failure,
     retryAfterMs,
+    circuit: getCircuitStatus(circuitKey).state,
     reason: "server-error",
   });
 
   if (accountCount > 1) {
+    try {
+      await client.tui.showToast({
+        body: {
+          message: `Server error on ${getAccountLabel(account)}. Switching...`,
+          variant: "warning",
+        },
+      });
+    } catch {}
+  }
+
+  try {
+    await accountManager.save();
+  } catch (error) {
+    log.warn("Failed to save server error cooldown", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return { type: "rate-limit", retryAfterMs, serverError: true };
+}
+
+async function handleRevokedAccount(
+  account: ManagedAccount,
+  accountManager: AccountManager,
+  accountCount: number,
+  client: PluginContext["client"],
+): Promise<void> {
+  accountManager.markNeedsReauth(account);
+
+  log.warn(`${getAccountLabel(account)} refresh token revoked, needs re-authentication`, {
+    accountId: account.id,
+    accountEmail: account.email,
+    accountCount,
+    reason: "needs-reauth",
+  });
+
+  try {
     await client.tui.showToast({
       body: {
-        message: `Server error on ${account.email || `Account ${account.index + 1}`}. Switching...`,
-        variant: "warning",
+        title: "Antigravity re-authentication required",
+        message: `Google revoked access for ${getAccountLabel(account)}. Run \`opencode auth login\` → "Add or manage accounts" → reauth ${account.index + 1}.`,
+        variant: "error",
       },
     });
-  }
+  } catch {}
 
   try {
     await accountManager.save();
   } catch (error) {
-    log.warn("Failed to save rate limit state", {
+    log.warn("Failed to save re-authentication state", {
       error: error instanceof Error ? error.message : String(error),
     });
   }
+}
 
-  return { type: "rate-limit", retryAfterMs };
+async function isModelAccessDenied(response: Response, requestedModel: string): Promise<boolean> {
+  if (response.status !== 403 && response.status !== 404) {
+    return false;
+  }
+  try {
+    const body = JSON.parse(await response.clone().text()) as GeminiApiBody;
+    return isModelAccessError(response.status, body, requestedModel);
+  } catch {
+    return false;
+  }
+}
+
+async function handleModelAccessDenied(
+  account: ManagedAccount,
+  model: string,
+  accountManager: AccountManager,
+  accountCount: number,
+  client: PluginContext["client"],
+  switching: boolean,
+): Promise<void> {
+  const label = getAccountLabel(account);
+
+  log.warn(`${label} has no access to ${model}`, {
+    accountId: account.id,
+    accountEmail: account.email,
+    accountCount,
+    model,
+    reason: "model-access",
+  });
+
+  try {
+    await client.tui.showToast({
+      body: {
+        message: switching
+          ? `${label} has no access to ${model}. Switching...`
+          : `${label} has no access to ${model}, and no other account does either.`,
+        variant: "warning",
+      },
+    });
+  } catch {}
+
+  try {
+    await accountManager.save();
+  } catch (error) {
+    log.warn("Failed to save model access state", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
 }
 
 async function tryEndpointFallbacks(
   input: RequestInfo | URL,
-  init: RequestInit | undefined,
+  prepared: PreparedAntigravityRequest,
   accessToken: string,
   projectContext: ProjectContextResult,
-  account: ReturnType<AccountManager["getCurrentOrNextForFamily"]> & {},
+  account: ManagedAccount,
   accountManager: AccountManager,
   accountCount: number,
   client: PluginContext["client"],
   abortSignal: AbortSignal | undefined,
-  getRateLimitDelay: (accountIndex: number, serverRetryAfterMs: number | null) => RateLimitDelay,
+  getRateLimitDelay: (accountId: string, serverRetryAfterMs: number | null) => RateLimitDelay,
   family: ModelFamily,
 ): Promise<EndpointLoopResult> {
   let lastError: Error | null = null;
   let lastResponse: Response | null = null;
   let lastAttemptInfo: AttemptInfo | null = null;
 
-  const normalizedInput: RequestInfo = input instanceof URL ? input.toString() : input;
+  // The request was transformed once for the whole call; each attempt only swaps credentials and endpoint.
+  const { request, init: transformedInit, streaming, requestedModel } = withRequestCredentials(
+    prepared,
+    accessToken,
+    projectContext.effectiveProjectId,
+  );
+
+  // Endpoints are tried by health for this account. Those with an open circuit are skipped, unless all
+  // of them are open.
+  const orderedEndpoints = getEndpointOrder(account.id);
+  const healthyEndpoints = orderedEndpoints.filter((endpoint) => isCircuitAllowed(getEndpointCircuitKey(endpoint)));
+  const endpoints = healthyEndpoints.length > 0 ? healthyEndpoints : orderedEndpoints;
+  if (endpoints.length < orderedEndpoints.length) {
+    log.debug("Skipping endpoints with open circuits", {
+      skipped: orderedEndpoints.filter((endpoint) => !endpoints.includes(endpoint)),
+    });
+  }
 
-  for (let i = 0; i < CODE_ASSIST_ENDPOINT_FALLBACKS.length; i++) {
-    const currentEndpoint = CODE_ASSIST_ENDPOINT_FALLBACKS[i];
+  for (let i = 0; i < endpoints.length; i++) {
+    const currentEndpoint = endpoints[i];
     if (!currentEndpoint) continue;
+    const endpointCircuitKey = getEndpointCircuitKey(currentEndpoint);
+    let requestSent = false;
 
     try {
-      const { request, init: transformedInit, streaming, requestedModel } = await prepareAntigravityRequest(
-        normalizedInput,
-        init,
-        accessToken,
-        projectContext.effectiveProjectId,
-      );
-
       const finalUrl = overrideEndpointForRequest(request, currentEndpoint);
 
       const originalUrl = toUrlStr(input);
@@ -554,7 +733,28 @@ async function tryEndpointFallbacks(
         sessionId: getSessionId(),
       });
 
-      const response = await fetch(finalUrl, transformedInit);
+      beginCircuitRequest(endpointCircuitKey);
+      requestSent = true;
+      const startedAt = Date.now();
+      let response = await fetch(finalUrl, transformedInit);
+      if (streaming && response.ok && response.headers.get("content-type")?.includes("text/event-stream")) {
+        // Until the first event nothing has reached opencode, so a dead or silent stream can still move on.
+        response = await awaitStreamStart(response, getStreamIdleTimeoutMs(), abortSignal);
+      }
+      // Any answer below 500, 429s and other client errors included, shows the endpoint is reachable.
+      if (response.status >= 500) {
+        recordCircuitFailure(endpointCircuitKey);
+      } else {
+        recordCircuitSuccess(endpointCircuitKey);
+      }
+      // A 429 says nothing about the endpoint: the account is out of quota wherever it goes.
+      if (response.status !== 429) {
+        const endpointOk = response.status !== 403 && response.status !== 404 && response.status < 500;
+        recordEndpointResult(currentEndpoint, account.id, endpointOk, Date.now() - startedAt);
+      }
+      if (requestedModel) {
+        recordRequest(account, resolveModelName(requestedModel), response.status === 429);
+      }
 
       if (response.status === 429) {
         return handleRateLimit(
@@ -566,26 +766,49 @@ async function tryEndpointFallbacks(
           client,
           debugContext,
           requestedModel,
-          abortSignal,
           getRateLimitDelay,
           family,
         );
       }
 
-      if (response.status >= 500 && i === CODE_ASSIST_ENDPOINT_FALLBACKS.length - 1) {
-        return handleServerError(response, account, accountManager, accountCount, client, family);
+      if (response.status >= 500 && i === endpoints.length - 1) {
+        return handleServerError(
+          `${response.status} error`,
+          account,
+          accountManager,
+          accountCount,
+          client,
+          requestedModel,
+          family,
+        );
       }
 
       const shouldRetryEndpoint = response.status === 403 || response.status === 404 || response.status >= 500;
 
-      if (shouldRetryEndpoint && i < CODE_ASSIST_ENDPOINT_FALLBACKS.length - 1) {
+      if (shouldRetryEndpoint && i < endpoints.length - 1) {
         lastResponse = response;
         continue;
       }
 
       return { type: "success", response, attemptInfo: lastAttemptInfo };
     } catch (error) {
-      if (i < CODE_ASSIST_ENDPOINT_FALLBACKS.length - 1) {
+      if (requestSent && !abortSignal?.aborted) {
+        recordCircuitFailure(endpointCircuitKey);
+        recordEndpointResult(currentEndpoint, account.id, false);
+      } else {
+        releaseCircuitRequest(endpointCircuitKey);
+      }
+      if (error instanceof StreamStartError) {
+        log.warn("Stream failed before the first event; retrying elsewhere", {
+          accountId: account.id,
+          endpoint: currentEndpoint,
+          error: error.message,
+        });
+        if (i === endpoints.length - 1) {
+          return handleServerError("a failed stream", account, accountManager, accountCount, client, requestedModel, family);
+        }
+      }
+      if (i < endpoints.length - 1) {
         lastError = error instanceof Error ? error : new Error(String(error));
         continue;
       }
@@ -600,26 +823,30 @@ async function tryEndpointFallbacks(
   return { type: "all-failed", error: lastError ?? new Error("All endpoints failed") };
 }
 
+/**
+ * `directory` is the opencode workspace; ANTIGRAVITY_WORKSPACE_GROUPS may restrict it to some account groups.
+ */
 export function createAntigravityFetch(
   getAuth: GetAuth,
   client: PluginContext["client"],
+  directory?: string,
 ): (input: RequestInfo | URL, init?: RequestInit) => Promise<Response> {
-  const rateLimitStateByAccount = new Map<number, { consecutive429: number; lastAt: number }>();
+  const rateLimitStateByAccount = new Map<string, { consecutive429: number; lastAt: number }>();
 
-  const getRateLimitDelay = (accountIndex: number, serverRetryAfterMs: number | null): RateLimitDelay => {
+  const getRateLimitDelay = (accountId: string, serverRetryAfterMs: number | null): RateLimitDelay => {
     const now = Date.now();
-    const previous = rateLimitStateByAccount.get(accountIndex);
+    const previous = rateLimitStateByAccount.get(accountId);
     const attempt = (previous?.consecutive429 ?? 0) + 1;
     const backoffMs = computeExponentialBackoffMs(attempt);
     const delayMs = serverRetryAfterMs !== null ? Math.max(serverRetryAfterMs, backoffMs) : backoffMs;
 
-    rateLimitStateByAccount.set(accountIndex, { consecutive429: attempt, lastAt: now });
+    rateLimitStateByAccount.set(accountId, { consecutive429: attempt, lastAt: now });
 
     return { attempt, serverRetryAfterMs, delayMs };
   };
 
-  const resetRateLimitState = (accountIndex: number): void => {
-    rateLimitStateByAccount.delete(accountIndex);
+  const resetRateLimitState = (accountId: string): void => {
+    rateLimitStateByAccount.delete(accountId);
   };
 
   return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
@@ -635,69 +862,179 @@ export function createAntigravityFetch(
     }
 
     const urlString = toUrlStr(normalizedInput);
-    const family = getModelFamilyFromUrl(urlString);
-
-    const storedAccounts = await loadAccounts();
-    const accountManager = new AccountManager(latestAuth, storedAccounts);
+    const urlModel = extractModelFromUrl(urlString) ?? undefined;
+    // The model being requested; moves along the fallback chain once its quota is exhausted everywhere.
+    let model = urlModel;
+    let family = getModelFamilyFromUrl(urlString);
+    let prepareOptions: PrepareRequestOptions = {};
+    // Built on the first attempt and reused by every retry, until a fallback model needs a new one.
+    let prepared: PreparedAntigravityRequest | undefined;
+
+    const accountManager = await getSharedAccountManager(latestAuth);
     const accountCount = accountManager.getAccountCount();
+    hydrateAccountsFromCache(accountManager);
+
+    if (accountCount === 0) {
+      throw new Error("No Antigravity accounts configured. Run `opencode auth login` to authenticate.");
+    }
+
+    const allowedGroups = resolveAllowedGroups(directory);
+    assertWorkspaceHasAccounts(accountManager, allowedGroups, directory);
 
     const resolveProjectContext = async (authRecord: typeof latestAuth): Promise<ProjectContextResult> => {
       return ensureProjectContext(authRecord, client);
     };
 
     const abortSignal = init?.signal ?? undefined;
+    const conversationKey = isSessionAffinityEnabled()
+      ? getConversationKey(await readRequestBody(normalizedInput, init))
+      : undefined;
+
+    // Rate-limit waits share one budget per request. A wait that would exceed it ends the request with a
+    // 429 describing when each account resets, instead of blocking opencode for hours.
+    let maxWaitMs = getMaxWaitMs(family);
+    let waitedMs = 0;
+    const giveUp = (waitMs: number): Response => {
+      log.info("Rate-limit wait exceeds the request's budget; giving up", {
+        family,
+        rateLimitKey: getRateLimitKey(family, model),
+        waitMs,
+        waitedMs,
+        maxWaitMs,
+      });
+      return createRateLimitedResponse(accountManager, {
+        family,
+        model,
+        groups: allowedGroups,
+        waitedMs,
+        maxWaitMs,
+      });
+    };
+    const fallbackChain = urlModel ? getModelFallbacks(urlModel) : [];
+    const nextFallbackModel = (): string | undefined => {
+      const start = model === urlModel ? 0 : fallbackChain.indexOf(model ?? "") + 1;
+      return fallbackChain
+        .slice(start)
+        .find(
+          (candidate) =>
+            accountManager.getMinWaitTimeForFamily(getModelFamilyFromModelName(candidate), candidate, allowedGroups) === 0,
+        );
+    };
+    const waitWithinBudget = async (waitMs: number): Promise<Response | null> => {
+      if (waitedMs + waitMs > maxWaitMs) {
+        return giveUp(waitMs);
+      }
+      await sleepWithBackoff(waitMs, abortSignal);
+      waitedMs += waitMs;
+      return null;
+    };
+
+    // When every account is rate-limited for the model and waiting would exceed the budget or the fallback
+    // threshold, moves on to the next model in the chain that can be served now. Returns whether it did.
+    const fallBackInsteadOfWaiting = async (waitTimeMs: number): Promise<boolean> => {
+      if (!urlModel || (waitedMs + waitTimeMs <= maxWaitMs && waitTimeMs <= getFallbackAfterMs())) {
+        return false;
+      }
+      const fallbackModel = nextFallbackModel();
+      if (!fallbackModel) {
+        return false;
+      }
+      log.info(`All accounts are rate-limited for ${getRateLimitKey(family, model)}; falling back to ${fallbackModel}`, {
+        requestedModel: urlModel,
+        fromModel: model,
+        toModel: fallbackModel,
+        waitTimeMs,
+      });
+      try {
+        await client.tui.showToast({
+          body: {
+            message: `${model} is rate-limited on every account. Continuing with ${fallbackModel}.`,
+            variant: "warning",
+          },
+        });
+      } catch {}
+
+      prepareOptions = { model: fallbackModel, stripThinking: crossesProvider(urlModel, fallbackModel) };
+      prepared = undefined;
+      model = fallbackModel;
+      family = getModelFamilyFromModelName(fallbackModel);
+      // The budget follows the model being served; what was already waited still counts against it.
+      maxWaitMs = getMaxWaitMs(family);
+      return true;
+    };
 
     while (true) {
       const previousAccount = accountManager.getCurrentAccount();
-      const account = accountManager.getCurrentOrNextForFamily(family);
+      // Later turns of a conversation go back to the account that served it, while it can.
+      const affinityAccountId = conversationKey ? getAffinityAccountId(conversationKey) : undefined;
+      const account =
+        (affinityAccountId && accountManager.useAccountIfAvailable(affinityAccountId, family, model, allowedGroups)) ||
+        accountManager.getCurrentOrNextForFamily(family, model, allowedGroups);
 
       if (!account) {
-        const waitTimeMs = accountManager.getMinWaitTimeForFamily(family) || 60000;
+        assertWorkspaceHasAccounts(accountManager, allowedGroups, directory);
+        if (!accountManager.hasUsableAccounts(allowedGroups)) {
+          throw new Error(
+            "No usable Antigravity accounts: every account is disabled or needs re-authentication. Run `opencode auth login` and choose \"Add or manage accounts (Antigravity)\".",
+          );
+        }
+
+        const waitTimeMs = accountManager.getMinWaitTimeForFamily(family, model, allowedGroups) || 60000;
+        if (await fallBackInsteadOfWaiting(waitTimeMs)) {
+          continue;
+        }
+        if (waitedMs + waitTimeMs > maxWaitMs) {
+          return giveUp(waitTimeMs);
+        }
         const waitTimeSec = Math.ceil(waitTimeMs / 1000);
         const waitTimeHuman = formatWaitTimeMs(waitTimeMs);
+        const rateLimitKey = getRateLimitKey(family, model);
 
-        log.info(`All ${accountCount} account(s) are rate-limited for ${family}, waiting...`, {
+        log.info(`All ${accountCount} account(s) are rate-limited for ${rateLimitKey}, waiting...`, {
           accountCount,
           waitTimeSec,
           waitTimeHuman,
           family,
+          rateLimitKey,
         });
 
         printAntigravityConsole(
           "error",
-          `All ${accountCount} account(s) are rate-limited for ${family}. Retrying after ${waitTimeHuman}...`,
+          `All ${accountCount} account(s) are rate-limited for ${rateLimitKey}. Retrying after ${waitTimeHuman}...`,
         );
 
         try {
           await client.tui.showToast({
             body: {
-              message: `Antigravity Rate Limited (${family}). Retrying after ${waitTimeHuman}...`,
+              message: `Antigravity Rate Limited (${rateLimitKey}). Retrying after ${waitTimeHuman}...`,
               variant: "warning",
             },
           });
         } catch {}
 
         await sleepWithBackoff(waitTimeMs, abortSignal);
+        waitedMs += waitTimeMs;
         continue;
       }
 
-      const isSwitch = !previousAccount || previousAccount.index !== account.index;
+      const isSwitch = !previousAccount || previousAccount.id !== account.id;
 
       if (isSwitch) {
         const wasRateLimited = previousAccount
-          ? (previousAccount.rateLimitResetTimes[family] ?? 0) > Date.now()
+          ? accountManager.isRateLimited(previousAccount, family, model)
           : false;
         const switchReason = previousAccount ? (wasRateLimited ? "rate-limit" : "rotation") : "initial";
         accountManager.markSwitched(account, switchReason);
 
         log.info(
-          `Using account ${account.index + 1}/${accountCount}${account.email ? ` (${account.email})` : ""} for ${family}`,
+          `Using ${getAccountLabel(account)} (${account.index + 1}/${accountCount}) for ${family}`,
           {
-            accountIndex: account.index,
+            accountId: account.id,
             accountEmail: account.email,
             accountCount,
             reason: switchReason,
             family,
+            circuit: getCircuitStatus(getAccountCircuitKey(account.id)).state,
           },
         );
 
@@ -713,11 +1050,18 @@ export function createAntigravityFetch(
       let authRecord = accountManager.accountToAuth(account);
 
       if (accessTokenExpired(authRecord)) {
-        const refreshed = await refreshAccessToken(authRecord, client);
+        let refreshed: Awaited<ReturnType<typeof refreshAccountAccessToken>>;
+        try {
+          refreshed = await refreshAccountAccessToken(accountManager, account, client);
+        } catch (error) {
+          if (error instanceof TokenRevokedError) {
+            await handleRevokedAccount(account, accountManager, accountCount, client);
+            continue;
+          }
+          throw error;
+        }
         if (!refreshed) continue;
         authRecord = refreshed;
-        const parts = parseRefreshParts(refreshed.refresh);
-        accountManager.updateAccount(account, refreshed.access!, refreshed.expires!, parts);
 
         try {
           await accountManager.save();
@@ -732,36 +1076,108 @@ export function createAntigravityFetch(
       if (!accessToken) continue;
 
       const projectContext = await resolveProjectContext(authRecord);
+      prepared ??= await buildAntigravityRequest(normalizedInput, init, prepareOptions);
+
+      const accountCircuitKey = getAccountCircuitKey(account.id);
+      beginCircuitRequest(accountCircuitKey);
+      const releaseAccount = beginAccountRequest(account);
+      let result: EndpointLoopResult;
+      try {
+        result = await tryEndpointFallbacks(
+          input,
+          prepared,
+          accessToken,
+          projectContext,
+          account,
+          accountManager,
+          accountCount,
+          client,
+          abortSignal,
+          getRateLimitDelay,
+          family,
+        );
+      } catch (error) {
+        releaseCircuitRequest(accountCircuitKey);
+        releaseAccount();
+        throw error;
+      }
+      if (result.type !== "success" || !result.response) {
+        releaseAccount();
+      }
 
-      const result = await tryEndpointFallbacks(
-        input,
-        init,
-        accessToken,
-        projectContext,
-        account,
-        accountManager,
-        accountCount,
-        client,
-        abortSignal,
-        getRateLimitDelay,
-        family,
-      );
+      const modelAccessDenied =
+        !!model && !!result.response && (await isModelAccessDenied(result.response, model));
+
+      // Settle the account's circuit, which matters most for a half-open probe. Server errors were counted
+      // by handleServerError. A 403 on every endpoint counts as a failure; any other answer, 429s and
+      // other client errors included, shows the account works.
+      if (result.response?.status === 403 && !modelAccessDenied) {
+        recordCircuitFailure(accountCircuitKey);
+        log.warn(`${getAccountLabel(account)} received 403 on all endpoints`, {
+          accountId: account.id,
+          accountEmail: account.email,
+          circuit: getCircuitStatus(accountCircuitKey).state,
+        });
+      } else if (result.type !== "all-failed" && !result.serverError) {
+        recordCircuitSuccess(accountCircuitKey);
+      }
+      releaseCircuitRequest(accountCircuitKey);
+
+      if (model && modelAccessDenied) {
+        const learned = accountManager.markModelSupport(account, model, false);
+        if (accountManager.hasOtherAccountForModel(account, model, allowedGroups)) {
+          releaseAccount();
+          await handleModelAccessDenied(account, model, accountManager, accountCount, client, true);
+          continue;
+        }
+        if (learned) {
+          await handleModelAccessDenied(account, model, accountManager, accountCount, client, false);
+        }
+      }
 
       if (result.type === "retry-soon") {
+        const retryAfterMs = result.retryAfterMs ?? 0;
+        if (waitedMs + retryAfterMs > maxWaitMs) {
+          // No budget left to wait for this account; let the other accounts take the request first.
+          accountManager.markRateLimited(account, retryAfterMs, family, model);
+          continue;
+        }
+        await sleepWithBackoff(retryAfterMs, abortSignal);
+        waitedMs += retryAfterMs;
         continue;
       }
 
       if (result.type === "rate-limit") {
         if (accountCount === 1) {
-          const waitMs = result.retryAfterMs || accountManager.getMinWaitTimeForFamily(family) || 1000;
+          const waitMs = result.retryAfterMs || accountManager.getMinWaitTimeForFamily(family, model, allowedGroups) || 1000;
+          // Server errors are not about the model's quota, so they do not move the request along the chain.
+          if (!result.serverError && (await fallBackInsteadOfWaiting(waitMs))) {
+            continue;
+          }
           log.info("Single account rate-limited, retrying after backoff", { waitMs, waitSec: Math.ceil(waitMs / 1000), family });
-          await sleepWithBackoff(waitMs, abortSignal);
+          const rateLimited = await waitWithinBudget(waitMs);
+          if (rateLimited) return rateLimited;
         }
         continue;
       }
 
       if (result.type === "success" && result.response) {
-        resetRateLimitState(account.index);
+        if (result.response.ok) {
+          if (conversationKey) {
+            if (affinityAccountId && affinityAccountId !== account.id) {
+              log.info("Moved conversation to another account", {
+                fromAccountId: affinityAccountId,
+                accountId: account.id,
+                accountEmail: account.email,
+              });
+            }
+            recordAffinity(conversationKey, account.id);
+          }
+        }
+        resetRateLimitState(account.id);
+        if (model && result.response.ok) {
+          accountManager.markModelSupport(account, model, true);
+        }
 
         try {
           await client.auth.set({
@@ -790,7 +1206,40 @@ export function createAntigravityFetch(
           sessionId: getSessionId(),
         });
 
-        return transformAntigravityResponse(result.response, streaming, client, debugContext, requestedModel, getSessionId());
+        if (accountManager.getSelectionStrategy(family).name === "quota") {
+          refreshRemainingQuotaIfStale(account, accessToken, projectContext.effectiveProjectId);
+        }
+
+        const onUsage = requestedModel
+          ? (usage: GeminiUsageMetadata) => recordTokenUsage(account, resolveModelName(requestedModel), usage)
+          : undefined;
+
+        let transformed: Response;
+        try {
+          transformed = await transformAntigravityResponse(
+            result.response,
+            streaming,
+            client,
+            debugContext,
+            requestedModel,
+            getSessionId(),
+            onUsage,
+          );
+        } catch (error) {
+          releaseAccount();
+          throw error;
+        }
+        if (model && model !== urlModel) {
+          // Headers of a fetched response are immutable, so the header goes on a copy.
+          const headers = new Headers(transformed.headers);
+          headers.set(MODEL_HEADER, model);
+          transformed = new Response(transformed.body, {
+            status: transformed.status,
+            statusText: transformed.statusText,
+            headers,
+          });
+        }
+        return releaseWhenBodyDone(transformed, releaseAccount);
       }
 
       if (result.type === "all-failed") {
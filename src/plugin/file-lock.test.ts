@@ -0,0 +1,62 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { withFileLock } from "./file-lock";
+
+// Far above any pid the kernel hands out, so no process has it.
+const DEAD_PID = 2 ** 30;
+
+describe("file lock", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "antigravity-lock-"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("breaks a lock left by a process that is gone", async () => {
+    const path = join(dir, "dead.json");
+    writeFileSync(`${path}.lock`, JSON.stringify({ pid: DEAD_PID, host: hostname(), createdAt: Date.now() }));
+
+    expect(await withFileLock(path, async () => "ran")).toBe("ran");
+    expect(existsSync(`${path}.lock`)).toBe(false);
+    expect(readdirSync(dir).filter((name) => name.startsWith("dead.json"))).toEqual([]);
+  });
+
+  it("waits for an old lock whose owner is still running", async () => {
+    const path = join(dir, "live.json");
+    writeFileSync(`${path}.lock`, JSON.stringify({ pid: process.pid, host: hostname(), createdAt: 0 }));
+    const releasedAt = Date.now() + 300;
+    setTimeout(() => rmSync(`${path}.lock`), 300);
+
+    const ranAt = await withFileLock(path, async () => Date.now());
+
+    expect(ranAt).toBeGreaterThanOrEqual(releasedAt - 5);
+  });
+
+  it("leaves a lock taken over by another process in place on release", async () => {
+    const path = join(dir, "taken.json");
+    const other = JSON.stringify({ pid: process.pid, host: hostname(), createdAt: Date.now(), nonce: "other" });
+
+    await withFileLock(path, async () => {
+      writeFileSync(`${path}.lock`, other);
+    });
+
+    expect(readFileSync(`${path}.lock`, "utf-8")).toBe(other);
+    expect(readdirSync(dir).filter((name) => name.startsWith("taken.json"))).toEqual(["taken.json.lock"]);
+  });
+
+  it("breaks an old lock without an owner", async () => {
+    const path = join(dir, "empty.json");
+    writeFileSync(`${path}.lock`, "");
+    const old = new Date(Date.now() - 60_000);
+    utimesSync(`${path}.lock`, old, old);
+
+    expect(await withFileLock(path, async () => "ran")).toBe("ran");
+  });
+});
@@ -0,0 +1,166 @@
+import { randomBytes } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { hostname } from "node:os";
+import { dirname } from "node:path";
+import { createLogger } from "./logger";
+
+const log = createLogger("file-lock");
+
+const LOCK_RETRY_MS = 50;
+const LOCK_TIMEOUT_MS = 5 * 1000;
+/**
+ * Age after which a lock whose owner cannot be checked (another host, or no owner written) is assumed to
+ * belong to a process that hung or crashed without cleaning up.
+ */
+const LOCK_STALE_MS = 30 * 1000;
+
+interface LockOwner {
+  pid: number;
+  host: string;
+  createdAt: number;
+  /** Tells apart locks taken by the same process within the same millisecond. */
+  nonce: string;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Returns the lock file's contents when the lock is stale, else null. A lock owned by a process on this
+ * host is stale once that process is gone, however old it is; other locks once they are 30s old.
+ */
+async function readStaleLock(lockPath: string): Promise<string | null> {
+  let content: string;
+  let modifiedAt: number;
+  try {
+    content = await fs.readFile(lockPath, "utf-8");
+    modifiedAt = (await fs.stat(lockPath)).mtimeMs;
+  } catch {
+    // Gone already; the next attempt sorts it out.
+    return null;
+  }
+
+  let owner: Partial<LockOwner> = {};
+  try {
+    owner = JSON.parse(content) as Partial<LockOwner>;
+  } catch {
+    // Caught between create and write, or the owner died in between: only its age tells.
+  }
+
+  if (owner.host === hostname() && typeof owner.pid === "number") {
+    return isProcessAlive(owner.pid) ? null : content;
+  }
+  const createdAt = typeof owner.createdAt === "number" ? owner.createdAt : modifiedAt;
+  return Date.now() - createdAt > LOCK_STALE_MS ? content : null;
+}
+
+/**
+ * Deletes the lock only if it still holds `expectedContent`, without racing other processes: the lock is
+ * first renamed to a name only this process uses. A different lock that another process created in the
+ * meantime is put back. Returns whether the lock was deleted.
+ */
+async function removeLockIfUnchanged(lockPath: string, expectedContent: string): Promise<boolean> {
+  const claimedPath = `${lockPath}.${process.pid}.${randomBytes(4).toString("hex")}.stale`;
+  try {
+    await fs.rename(lockPath, claimedPath);
+  } catch {
+    // Released or broken by someone else.
+    return false;
+  }
+
+  try {
+    const content = await fs.readFile(claimedPath, "utf-8").catch(() => null);
+    if (content === expectedContent) {
+      return true;
+    }
+    await fs.link(claimedPath, lockPath).catch((error) => {
+      log.warn("Could not restore a lock held by another process", { lockPath, error: String(error) });
+    });
+    return false;
+  } finally {
+    await fs.unlink(claimedPath).catch(() => {});
+  }
+}
+
+/**
+ * Takes the lock and returns what was written to it, which identifies this holder when releasing.
+ */
+async function acquireLock(lockPath: string): Promise<string> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  const owner: LockOwner = {
+    pid: process.pid,
+    host: hostname(),
+    createdAt: Date.now(),
+    nonce: randomBytes(8).toString("hex"),
+  };
+  const content = JSON.stringify(owner);
+
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, "wx", 0o600);
+      try {
+        await handle.writeFile(content, "utf-8");
+      } finally {
+        await handle.close();
+      }
+      return content;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    const staleContent = await readStaleLock(lockPath);
+    if (staleContent !== null) {
+      if (await removeLockIfUnchanged(lockPath, staleContent)) {
+        log.warn("Removed stale lock", { lockPath });
+      }
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * Runs `fn` while holding an advisory lock on `path` (a `<path>.lock` file created exclusively).
+ * Locks left behind by dead processes are broken, as are locks from other hosts older than 30s. Waits up
+ * to 5s for a live holder.
+ */
+export async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const lockPath = `${path}.lock`;
+  await fs.mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  const ownContent = await acquireLock(lockPath);
+  try {
+    return await fn();
+  } finally {
+    // The lock may have been judged stale and taken by another process; that one is not ours to delete.
+    if (!(await removeLockIfUnchanged(lockPath, ownContent))) {
+      log.warn("Lock was taken over by another process before release", { lockPath });
+    }
+  }
+}
+
+/**
+ * Writes to a temporary file next to `path` and renames it into place, so readers and crashes never see
+ * a partially written file. The temporary file is always new, so the result has owner-only permissions
+ * even when it replaces a file written by an older version with wider ones.
+ */
+export async function writeFileAtomic(path: string, content: string): Promise<void> {
+  const tempPath = `${path}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+  try {
+    await fs.writeFile(tempPath, content, { encoding: "utf-8", mode: 0o600 });
+    await fs.rename(tempPath, path);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
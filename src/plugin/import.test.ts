@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from "bun:test";
+
+import * as constants from "../constants";
+import { AccountManager } from "./accounts";
+import { importAccounts, parseCredentialFile } from "./import";
+import type { OAuthAuthDetails, PluginClient } from "./types";
+
+// Token requests need a client secret, which is normally read from the environment.
+mock.module("../constants", () => ({ ...constants, ANTIGRAVITY_CLIENT_SECRET: "test-client-secret" }));
+
+describe("parseCredentialFile", () => {
+  it("reads gemini-cli oauth_creds.json", () => {
+    const text = JSON.stringify({
+      access_token: "ya29.old",
+      refresh_token: "1//gemini-token",
+      scope: "https://www.googleapis.com/auth/cloud-platform",
+      token_type: "Bearer",
+      expiry_date: 1700000000000,
+    });
+
+    expect(parseCredentialFile(text)).toEqual([{ refreshToken: "1//gemini-token", projectId: undefined, email: undefined }]);
+  });
+
+  it("reads account files and JSON arrays", () => {
+    const accounts = JSON.stringify({
+      version: 3,
+      accounts: [
+        { email: "a@example.com", refreshToken: "token-a", projectId: "project-a" },
+        { email: "b@example.com", refreshToken: "token-b" },
+      ],
+    });
+    expect(parseCredentialFile(accounts).map((c) => [c.refreshToken, c.projectId, c.email])).toEqual([
+      ["token-a", "project-a", "a@example.com"],
+      ["token-b", undefined, "b@example.com"],
+    ]);
+
+    expect(parseCredentialFile(JSON.stringify(["token-a", "token-b|project-b"]))).toEqual([
+      { refreshToken: "token-a", projectId: undefined },
+      { refreshToken: "token-b", projectId: "project-b" },
+    ]);
+  });
+
+  it("reads NDJSON and plain token lines, dropping duplicates", () => {
+    const text = [
+      '{"refresh_token":"token-a","email":"a@example.com"}',
+      "# comment",
+      "",
+      "token-b|project-b",
+      "token-a",
+    ].join("\n");
+
+    expect(parseCredentialFile(text).map((c) => c.refreshToken)).toEqual(["token-a", "token-b"]);
+  });
+});
+
+describe("importAccounts", () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    mock.restore();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function createClient() {
+    return { auth: { set: mock(async () => {}) } } as unknown as PluginClient;
+  }
+
+  it("validates tokens and merges by email", async () => {
+    globalThis.fetch = mock(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = input.toString();
+      if (url.includes("oauth2.googleapis.com/token")) {
+        const token = new URLSearchParams(init?.body as string).get("refresh_token");
+        if (token === "revoked") {
+          return new Response(JSON.stringify({ error: "invalid_grant" }), { status: 400 });
+        }
+        return new Response(JSON.stringify({ access_token: `access-${token}`, expires_in: 3600 }), { status: 200 });
+      }
+      if (url.includes("userinfo")) {
+        const auth = new Headers(init?.headers).get("Authorization");
+        return new Response(JSON.stringify({ email: auth === "Bearer access-new" ? "new@example.com" : "existing@example.com" }));
+      }
+      return new Response(JSON.stringify({ cloudaicompanionProject: "discovered-project" }), { status: 200 });
+    }) as unknown as typeof fetch;
+
+    const auth: OAuthAuthDetails = { type: "oauth", refresh: "old-token|project-1", access: "", expires: 0 };
+    const manager = new AccountManager(auth);
+    manager.getAccounts()[0]!.email = "existing@example.com";
+
+    const result = await importAccounts(manager, createClient(), [
+      { refreshToken: "rotated" },
+      { refreshToken: "new" },
+      { refreshToken: "revoked" },
+    ]);
+
+    expect(result.updated).toEqual(["existing@example.com"]);
+    expect(result.added).toEqual(["new@example.com"]);
+    expect(result.failed.map((f) => f.label)).toEqual(["token …evoked"]);
+
+    const accounts = manager.getAccounts();
+    expect(accounts).toHaveLength(2);
+    expect(accounts[0]?.parts.refreshToken).toBe("rotated");
+    expect(accounts[1]?.parts.projectId).toBe("discovered-project");
+  });
+});
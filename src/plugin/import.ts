@@ -0,0 +1,223 @@
+import { promises as fs } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { fetchAccountInfo, fetchUserEmail } from "../antigravity/oauth";
+import { upsertAccount } from "./account-admin";
+import type { AccountManager } from "./accounts";
+import { formatRefreshParts, parseRefreshParts } from "./auth";
+import { createLogger } from "./logger";
+import { refreshAccessToken, TokenRevokedError } from "./token";
+import type { PluginClient } from "./types";
+
+const log = createLogger("import");
+
+/**
+ * Where gemini-cli keeps its OAuth credentials; used when no path is given.
+ */
+export function getDefaultImportPath(): string {
+  return join(homedir(), ".gemini", "oauth_creds.json");
+}
+
+/**
+ * Refresh token found in a credential file, with whatever metadata the file carried.
+ */
+export interface ImportCandidate {
+  refreshToken: string;
+  projectId?: string;
+  email?: string;
+}
+
+export interface ImportResult {
+  added: string[];
+  updated: string[];
+  failed: Array<{ label: string; reason: string }>;
+}
+
+function pickString(record: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function candidateFromValue(value: unknown): ImportCandidate | null {
+  if (typeof value === "string") {
+    const parts = parseRefreshParts(value.trim());
+    return parts.refreshToken ? { refreshToken: parts.refreshToken, projectId: parts.projectId } : null;
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const packed = pickString(record, ["refresh_token", "refreshToken", "refresh"]);
+  if (!packed) {
+    return null;
+  }
+  const parts = parseRefreshParts(packed);
+  if (!parts.refreshToken) {
+    return null;
+  }
+  return {
+    refreshToken: parts.refreshToken,
+    projectId: pickString(record, ["projectId", "project_id", "project"]) ?? parts.projectId,
+    email: pickString(record, ["email"]),
+  };
+}
+
+function candidatesFromJson(value: unknown): ImportCandidate[] {
+  if (Array.isArray(value)) {
+    return value.map(candidateFromValue).filter((c): c is ImportCandidate => c !== null);
+  }
+  if (value && typeof value === "object" && Array.isArray((value as { accounts?: unknown }).accounts)) {
+    return candidatesFromJson((value as { accounts: unknown[] }).accounts);
+  }
+  const single = candidateFromValue(value);
+  return single ? [single] : [];
+}
+
+/**
+ * Extracts refresh tokens from a credential file. Understands gemini-cli's `oauth_creds.json`,
+ * account files with an `accounts` array (including antigravity-accounts.json), JSON arrays of
+ * tokens or objects, NDJSON, and plain text with one (optionally `token|project` packed) token per line.
+ * Duplicate tokens are dropped.
+ */
+export function parseCredentialFile(text: string): ImportCandidate[] {
+  let candidates: ImportCandidate[];
+  try {
+    candidates = candidatesFromJson(JSON.parse(text));
+  } catch {
+    candidates = [];
+    for (const line of text.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("#")) {
+        continue;
+      }
+      let value: unknown = trimmed;
+      if (trimmed.startsWith("{") || trimmed.startsWith("\"")) {
+        try {
+          value = JSON.parse(trimmed);
+        } catch {
+          continue;
+        }
+      }
+      const candidate = candidateFromValue(value);
+      if (candidate) {
+        candidates.push(candidate);
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  return candidates.filter((candidate) => {
+    if (seen.has(candidate.refreshToken)) {
+      return false;
+    }
+    seen.add(candidate.refreshToken);
+    return true;
+  });
+}
+
+function describeCandidate(candidate: ImportCandidate): string {
+  return candidate.email ?? `token …${candidate.refreshToken.slice(-6)}`;
+}
+
+/**
+ * Validates each candidate by refreshing it, looks up its email, project and tier, and merges it into the
+ * pool (accounts with the same email are updated in place). Does not persist; callers save the manager.
+ */
+export async function importAccounts(
+  manager: AccountManager,
+  client: PluginClient,
+  candidates: ImportCandidate[],
+): Promise<ImportResult> {
+  const result: ImportResult = { added: [], updated: [], failed: [] };
+
+  for (const candidate of candidates) {
+    const label = describeCandidate(candidate);
+    const auth = {
+      type: "oauth" as const,
+      refresh: formatRefreshParts({ refreshToken: candidate.refreshToken, projectId: candidate.projectId }),
+      access: "",
+      expires: 0,
+    };
+
+    let refreshed;
+    try {
+      refreshed = await refreshAccessToken(auth, client);
+    } catch (error) {
+      if (error instanceof TokenRevokedError) {
+        result.failed.push({ label, reason: "refresh token was revoked or was issued to a different OAuth client" });
+        continue;
+      }
+      throw error;
+    }
+    if (!refreshed) {
+      result.failed.push({ label, reason: "token refresh failed" });
+      continue;
+    }
+
+    try {
+      const email = (await fetchUserEmail(refreshed.access)) ?? candidate.email;
+      const accountInfo = await fetchAccountInfo(refreshed.access);
+      const projectId = candidate.projectId || accountInfo.projectId;
+      const { account, added } = upsertAccount(manager, {
+        refresh: formatRefreshParts({ refreshToken: parseRefreshParts(refreshed.refresh).refreshToken, projectId }),
+        access: refreshed.access,
+        expires: refreshed.expires,
+        projectId,
+        email,
+        tier: accountInfo.tier,
+      });
+      (added ? result.added : result.updated).push(account.email ?? label);
+    } catch (error) {
+      result.failed.push({ label, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  log.info("Imported accounts", {
+    added: result.added.length,
+    updated: result.updated.length,
+    failed: result.failed.length,
+  });
+  return result;
+}
+
+/**
+ * Reads a credential file (default: gemini-cli's `~/.gemini/oauth_creds.json`) and imports its tokens.
+ */
+export async function importCredentialFile(
+  manager: AccountManager,
+  client: PluginClient,
+  path = getDefaultImportPath(),
+): Promise<ImportResult> {
+  const resolved = path.startsWith("~/") ? join(homedir(), path.slice(2)) : path;
+  let text: string;
+  try {
+    text = await fs.readFile(resolved, "utf-8");
+  } catch (error) {
+    throw new Error(`Cannot read ${resolved}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const candidates = parseCredentialFile(text);
+  if (candidates.length === 0) {
+    throw new Error(`No refresh tokens found in ${resolved}.`);
+  }
+  return importAccounts(manager, client, candidates);
+}
+
+/**
+ * Renders an import result for the CLI menu and the accounts tool.
+ */
+export function formatImportResult(result: ImportResult): string {
+  const lines: string[] = [];
+  if (result.added.length > 0) lines.push(`Added: ${result.added.join(", ")}`);
+  if (result.updated.length > 0) lines.push(`Updated: ${result.updated.join(", ")}`);
+  for (const failure of result.failed) {
+    lines.push(`Skipped ${failure.label}: ${failure.reason}`);
+  }
+  return lines.length > 0 ? lines.join("\n") : "Nothing imported.";
+}
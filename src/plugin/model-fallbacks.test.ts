@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it } from "bun:test";
+
+import { ENV_FALLBACK_AFTER } from "../constants";
+import { crossesProvider, getFallbackAfterMs, getModelFallbacks, parseModelFallbacks } from "./model-fallbacks";
+
+describe("model fallbacks", () => {
+  afterEach(() => {
+    delete process.env[ENV_FALLBACK_AFTER];
+  });
+
+  it("parses chains by backend model and skips malformed entries", () => {
+    const fallbacks = parseModelFallbacks(
+      "gemini-claude-opus-4-5-thinking=claude-sonnet-4-5-thinking, gemini-3-pro-high,gemini-3-flash;broken;gemini-3-pro-preview=gemini-3-pro-high,gemini-3-flash",
+    );
+
+    expect(fallbacks).toEqual({
+      "claude-opus-4-5-thinking": ["claude-sonnet-4-5-thinking", "gemini-3-pro-high", "gemini-3-flash"],
+      "gemini-3-pro-high": ["gemini-3-flash"],
+    });
+    expect(getModelFallbacks("claude-opus-4-5-thinking", fallbacks)).toHaveLength(3);
+    expect(getModelFallbacks("gemini-3-pro-preview", fallbacks)).toEqual(["gemini-3-flash"]);
+    expect(getModelFallbacks("gemini-3-flash", fallbacks)).toEqual([]);
+  });
+
+  it("reads the fallback threshold in seconds", () => {
+    expect(getFallbackAfterMs()).toBe(120_000);
+    process.env[ENV_FALLBACK_AFTER] = "0";
+    expect(getFallbackAfterMs()).toBe(0);
+    process.env[ENV_FALLBACK_AFTER] = "soon";
+    expect(getFallbackAfterMs()).toBe(120_000);
+  });
+
+  it("detects switches between Claude and Gemini", () => {
+    expect(crossesProvider("gemini-claude-opus-4-5-thinking", "claude-sonnet-4-5-thinking")).toBe(false);
+    expect(crossesProvider("claude-sonnet-4-5-thinking", "gemini-3-pro-high")).toBe(true);
+    expect(crossesProvider("gemini-3-pro-high", "gemini-3-flash")).toBe(false);
+  });
+});
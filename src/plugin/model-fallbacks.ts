@@ -0,0 +1,75 @@
+import { ENV_FALLBACK_AFTER, ENV_MODEL_FALLBACKS } from "../constants";
+import { createLogger } from "./logger";
+import { resolveModelName } from "./request";
+
+const log = createLogger("model-fallbacks");
+
+const DEFAULT_FALLBACK_AFTER_MS = 2 * 60 * 1000;
+
+/**
+ * Backend model → models to continue on, in order, once every account is out of quota for it.
+ */
+export type ModelFallbacks = Record<string, string[]>;
+
+/**
+ * Parses ANTIGRAVITY_MODEL_FALLBACKS: semicolon-separated `model=fallback,fallback` entries, e.g.
+ * `claude-opus-4-5-thinking=claude-sonnet-4-5-thinking,gemini-3-pro-high,gemini-3-flash;gemini-3-pro-high=gemini-3-flash`.
+ * Models may be given by requested or backend name. Malformed entries are logged and ignored.
+ */
+export function parseModelFallbacks(raw: string | undefined): ModelFallbacks {
+  const fallbacks: ModelFallbacks = {};
+  if (!raw?.trim()) {
+    return fallbacks;
+  }
+
+  for (const entry of raw.split(";")) {
+    if (!entry.trim()) continue;
+    const [model, chain] = entry.split("=").map((part) => part.trim());
+    const targets = (chain ?? "").split(",").map((target) => target.trim()).filter(Boolean);
+    if (!model || targets.length === 0) {
+      log.warn("Ignoring invalid model fallback entry", { entry });
+      continue;
+    }
+    const backendModel = resolveModelName(model);
+    fallbacks[backendModel] = targets.filter((target) => resolveModelName(target) !== backendModel);
+  }
+  return fallbacks;
+}
+
+let cachedEnvFallbacks: { raw: string | undefined; fallbacks: ModelFallbacks } | undefined;
+
+/**
+ * Fallback chains from the environment, parsed once per distinct value.
+ */
+export function getModelFallbackChains(): ModelFallbacks {
+  const raw = process.env[ENV_MODEL_FALLBACKS];
+  if (!cachedEnvFallbacks || cachedEnvFallbacks.raw !== raw) {
+    cachedEnvFallbacks = { raw, fallbacks: parseModelFallbacks(raw) };
+  }
+  return cachedEnvFallbacks.fallbacks;
+}
+
+/**
+ * Models to try, in order, when every account is out of quota for `model`. Empty without a chain.
+ */
+export function getModelFallbacks(model: string, fallbacks: ModelFallbacks = getModelFallbackChains()): string[] {
+  return fallbacks[resolveModelName(model)] ?? [];
+}
+
+/**
+ * How long the accounts must be rate-limited for a model before a request moves on to its fallback,
+ * from ANTIGRAVITY_FALLBACK_AFTER in seconds. Defaults to 2 minutes.
+ */
+export function getFallbackAfterMs(): number {
+  const raw = process.env[ENV_FALLBACK_AFTER];
+  const seconds = raw === undefined ? NaN : Number(raw);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : DEFAULT_FALLBACK_AFTER_MS;
+}
+
+/**
+ * Whether switching between the two models changes the backend provider. Thinking blocks are signed by
+ * the provider that wrote them, so they must be dropped from the history when it changes.
+ */
+export function crossesProvider(fromModel: string, toModel: string): boolean {
+  return resolveModelName(fromModel).includes("claude") !== resolveModelName(toModel).includes("claude");
+}
@@ -1,9 +1,9 @@
 import {
   ANTIGRAVITY_PROVIDER_ID,
-  CODE_ASSIST_ENDPOINT,
   CODE_ASSIST_HEADERS,
 } from "../constants";
 import { formatRefreshParts, parseRefreshParts } from "./auth";
+import { getEndpointOrder, getPreferredEndpoint, recordEndpointResult } from "./endpoint-health";
 import { printAntigravityConsole } from "./logger";
 import type {
   OAuthAuthDetails,
@@ -121,36 +121,47 @@ export async function loadManagedProject(
   accessToken: string,
   projectId?: string,
 ): Promise<LoadCodeAssistPayload | null> {
-  try {
-    const metadata = buildMetadata(projectId);
+  const metadata = buildMetadata(projectId);
 
-    const requestBody: Record<string, unknown> = { metadata };
-    if (projectId) {
-      requestBody.cloudaicompanionProject = projectId;
-    }
+  const requestBody: Record<string, unknown> = { metadata };
+  if (projectId) {
+    requestBody.cloudaicompanionProject = projectId;
+  }
 
-    const response = await fetch(
-      `${CODE_ASSIST_ENDPOINT}/v1internal:loadCodeAssist`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${accessToken}`,
-          ...CODE_ASSIST_HEADERS,
+  // Same endpoints, in the same health order, as model requests.
+  let lastError: unknown;
+  for (const endpoint of getEndpointOrder()) {
+    try {
+      const startedAt = Date.now();
+      const response = await fetch(
+        `${endpoint}/v1internal:loadCodeAssist`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${accessToken}`,
+            ...CODE_ASSIST_HEADERS,
+          },
+          body: JSON.stringify(requestBody),
         },
-        body: JSON.stringify(requestBody),
-      },
-    );
+      );
+      recordEndpointResult(endpoint, undefined, response.ok, Date.now() - startedAt);
 
-    if (!response.ok) {
-      return null;
+      if (!response.ok) {
+        continue;
+      }
+
+      return (await response.json()) as LoadCodeAssistPayload;
+    } catch (error) {
+      recordEndpointResult(endpoint, undefined, false);
+      lastError = error;
     }
+  }
 
-    return (await response.json()) as LoadCodeAssistPayload;
-  } catch (error) {
-    printAntigravityConsole("error", "Failed to load Antigravity managed project", error);
-    return null;
+  if (lastError) {
+    printAntigravityConsole("error", "Failed to load Antigravity managed project", lastError);
   }
+  return null;
 }
 
 
@@ -180,7 +191,7 @@ export async function onboardManagedProject(
   for (let attempt = 0; attempt < attempts; attempt += 1) {
     try {
       const response = await fetch(
-        `${CODE_ASSIST_ENDPOINT}/v1internal:onboardUser`,
+        `${getPreferredEndpoint()}/v1internal:onboardUser`,
         {
           method: "POST",
           headers: {
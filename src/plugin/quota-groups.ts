@@ -0,0 +1,69 @@
+import { ENV_QUOTA_GROUPS } from "../constants";
+import type { ModelFamily } from "./storage";
+import { createLogger } from "./logger";
+import { resolveModelName } from "./request";
+
+const log = createLogger("quota-groups");
+
+/**
+ * Backend model → quota group name, for models that share one rate limit.
+ */
+export type QuotaGroups = Record<string, string>;
+
+/**
+ * Parses ANTIGRAVITY_QUOTA_GROUPS: semicolon-separated `group=model,model` entries, e.g.
+ * `claude-opus=claude-opus-4-5-thinking,claude-opus-4-5;gemini-3-pro=gemini-3-pro-high,gemini-3-pro-low`.
+ * Models may be given by requested or backend name. Malformed entries are logged and ignored.
+ */
+export function parseQuotaGroups(raw: string | undefined): QuotaGroups {
+  const groups: QuotaGroups = {};
+  if (!raw?.trim()) {
+    return groups;
+  }
+
+  for (const entry of raw.split(";")) {
+    if (!entry.trim()) continue;
+    const [name, models] = entry.split("=").map((part) => part.trim());
+    const members = (models ?? "").split(",").map((model) => model.trim()).filter(Boolean);
+    if (!name || members.length === 0) {
+      log.warn("Ignoring invalid quota group entry", { entry });
+      continue;
+    }
+    for (const model of members) {
+      groups[resolveModelName(model)] = name;
+    }
+  }
+  return groups;
+}
+
+let cachedEnvGroups: { raw: string | undefined; groups: QuotaGroups } | undefined;
+
+/**
+ * Quota groups from the environment, parsed once per distinct value.
+ */
+export function getQuotaGroups(): QuotaGroups {
+  const raw = process.env[ENV_QUOTA_GROUPS];
+  if (!cachedEnvGroups || cachedEnvGroups.raw !== raw) {
+    cachedEnvGroups = { raw, groups: parseQuotaGroups(raw) };
+  }
+  return cachedEnvGroups.groups;
+}
+
+/**
+ * Key under which a 429 for `model` is tracked: its quota group, else the resolved backend model.
+ * Requests whose model is unknown fall back to the family.
+ */
+export function getRateLimitKey(family: ModelFamily, model?: string, groups: QuotaGroups = getQuotaGroups()): string {
+  if (!model) {
+    return getFamilyRateLimitKey(family);
+  }
+  const backendModel = resolveModelName(model);
+  return groups[backendModel] ?? backendModel;
+}
+
+/**
+ * Family-wide key carried over from v3 storage; it applies to every model of the family.
+ */
+export function getFamilyRateLimitKey(family: ModelFamily): string {
+  return `family:${family}`;
+}
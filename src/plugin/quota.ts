@@ -0,0 +1,100 @@
+import { CODE_ASSIST_HEADERS } from "../constants";
+import type { ManagedAccount, ModelFamily } from "./accounts";
+import { getPreferredEndpoint } from "./endpoint-health";
+import { createLogger } from "./logger";
+
+const log = createLogger("quota");
+
+/** How long a quota snapshot from the server is trusted before it is fetched again. */
+const QUOTA_SNAPSHOT_TTL_MS = 5 * 60 * 1000;
+
+interface QuotaSnapshot {
+  remaining: Partial<Record<ModelFamily, number>>;
+  fetchedAt: number;
+}
+
+interface AvailableModelsPayload {
+  models?: Record<string, { quotaInfo?: { remainingFraction?: number } }>;
+}
+
+const quotaByAccount = new Map<string, QuotaSnapshot>();
+const pendingQuotaFetches = new Set<string>();
+
+export function getModelFamilyFromModelName(model: string): ModelFamily {
+  if (model.includes("claude")) {
+    return "claude";
+  }
+  if (model.includes("flash")) {
+    return "gemini-flash";
+  }
+  return "gemini-pro";
+}
+
+/**
+ * Fraction (0-1) of the account's quota known to remain for a family, or undefined when nothing is known.
+ */
+export function getRemainingQuota(account: ManagedAccount, family: ModelFamily): number | undefined {
+  return quotaByAccount.get(account.id)?.remaining[family];
+}
+
+/**
+ * Records a known remaining fraction for one family, e.g. 0 after a 429.
+ */
+export function recordRemainingQuota(account: ManagedAccount, family: ModelFamily, fraction: number): void {
+  const key = account.id;
+  const snapshot = quotaByAccount.get(key) ?? { remaining: {}, fetchedAt: 0 };
+  snapshot.remaining[family] = Math.min(1, Math.max(0, fraction));
+  quotaByAccount.set(key, snapshot);
+}
+
+/**
+ * Reduces the per-model quota from `fetchAvailableModels` to the lowest remaining fraction per family.
+ */
+export function parseAvailableModelsQuota(payload: AvailableModelsPayload): Partial<Record<ModelFamily, number>> {
+  const remaining: Partial<Record<ModelFamily, number>> = {};
+  for (const [model, info] of Object.entries(payload.models ?? {})) {
+    const fraction = info?.quotaInfo?.remainingFraction;
+    if (typeof fraction !== "number" || !Number.isFinite(fraction)) continue;
+    const family = getModelFamilyFromModelName(model);
+    remaining[family] = Math.min(remaining[family] ?? 1, Math.max(0, fraction));
+  }
+  return remaining;
+}
+
+/**
+ * Fetches the account's remaining quota in the background when the last snapshot is stale.
+ * Failures are logged and leave the previous knowledge in place.
+ */
+export function refreshRemainingQuotaIfStale(account: ManagedAccount, accessToken: string, projectId: string): void {
+  const key = account.id;
+  const snapshot = quotaByAccount.get(key);
+  if ((snapshot && Date.now() - snapshot.fetchedAt < QUOTA_SNAPSHOT_TTL_MS) || pendingQuotaFetches.has(key)) {
+    return;
+  }
+
+  pendingQuotaFetches.add(key);
+  void (async () => {
+    try {
+      const response = await fetch(`${getPreferredEndpoint(account.id)}/v1internal:fetchAvailableModels`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+          ...CODE_ASSIST_HEADERS,
+        },
+        body: JSON.stringify(projectId ? { project: projectId } : {}),
+      });
+      if (!response.ok) {
+        log.debug("Quota lookup failed", { accountId: account.id, status: response.status });
+        return;
+      }
+      const remaining = parseAvailableModelsQuota((await response.json()) as AvailableModelsPayload);
+      quotaByAccount.set(key, { remaining, fetchedAt: Date.now() });
+      log.debug("Updated known quota", { accountId: account.id, remaining });
+    } catch (error) {
+      log.debug("Quota lookup failed", { accountId: account.id, error: String(error) });
+    } finally {
+      pendingQuotaFetches.delete(key);
+    }
+  })();
+}
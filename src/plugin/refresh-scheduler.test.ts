@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, mock } from "bun:test";
+
+import * as constants from "../constants";
+import { AccountManager } from "./accounts";
+import { clearCachedAuth } from "./cache";
+import { hydrateAccountsFromCache, refreshAccountAccessToken } from "./refresh-scheduler";
+import type { OAuthAuthDetails, PluginClient } from "./types";
+
+// Token requests need a client secret, which is normally read from the environment.
+mock.module("../constants", () => ({ ...constants, ANTIGRAVITY_CLIENT_SECRET: "test-client-secret" }));
+
+const client = { auth: { set: mock(async () => {}) } } as unknown as PluginClient;
+
+function createManager(): AccountManager {
+  const auth: OAuthAuthDetails = {
+    type: "oauth",
+    refresh: "refresh_1|project_1||refresh_2|project_2",
+    access: "",
+    expires: 0,
+  };
+  return new AccountManager(auth);
+}
+
+describe("refreshAccountAccessToken", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    clearCachedAuth();
+  });
+
+  it("coalesces concurrent refreshes of the same account", async () => {
+    let calls = 0;
+    globalThis.fetch = mock(async () => {
+      calls += 1;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return new Response(
+        JSON.stringify({ access_token: `access-${calls}`, expires_in: 3600, refresh_token: "rotated_1" }),
+        { status: 200 },
+      );
+    }) as unknown as typeof fetch;
+
+    const first = createManager();
+    const second = createManager();
+    const [a, b] = await Promise.all([
+      refreshAccountAccessToken(first, first.getAccounts()[0]!, client),
+      refreshAccountAccessToken(second, second.getAccounts()[0]!, client),
+    ]);
+
+    expect(calls).toBe(1);
+    expect(a?.access).toBe("access-1");
+    expect(b?.access).toBe("access-1");
+    expect(first.getAccounts()[0]?.parts.refreshToken).toBe("rotated_1");
+    expect(second.getAccounts()[0]?.access).toBe("access-1");
+  });
+
+  it("shares refreshed tokens with managers loaded later", async () => {
+    globalThis.fetch = mock(async () =>
+      new Response(JSON.stringify({ access_token: "fresh-access", expires_in: 3600 }), { status: 200 }),
+    ) as unknown as typeof fetch;
+
+    const first = createManager();
+    await refreshAccountAccessToken(first, first.getAccounts()[1]!, client);
+
+    const later = createManager();
+    hydrateAccountsFromCache(later);
+    expect(later.getAccounts()[1]?.access).toBe("fresh-access");
+    expect(later.getAccounts()[0]?.access).toBeFalsy();
+  });
+});
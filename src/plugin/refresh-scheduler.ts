@@ -0,0 +1,174 @@
+import { ANTIGRAVITY_PROVIDER_ID } from "../constants";
+import type { AccountManager, ManagedAccount } from "./accounts";
+import { getSharedAccountManager } from "./account-store";
+import { isOAuthAuth, parseRefreshParts } from "./auth";
+import { resolveCachedAuth } from "./cache";
+import { createLogger } from "./logger";
+import { refreshAccessToken, TokenRevokedError } from "./token";
+import type { GetAuth, OAuthAuthDetails, PluginClient } from "./types";
+
+const log = createLogger("refresh-scheduler");
+
+/** Renew this long before `expires`, ahead of the 60s buffer `accessTokenExpired` applies. */
+const REFRESH_LEAD_MS = 5 * 60 * 1000;
+/** Retry delay after a background refresh fails for a reason other than revocation. */
+const REFRESH_RETRY_MS = 60 * 1000;
+
+const inFlightRefreshes = new Map<string, Promise<OAuthAuthDetails | undefined>>();
+const refreshTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+let schedulerContext: { getAuth: GetAuth; client: PluginClient } | null = null;
+
+/**
+ * Refreshes one account's access token, coalescing concurrent callers for the same account into a single
+ * request so a rotated refresh token is never used twice. The result is pushed into the manager and the
+ * auth cache, and the next background refresh is scheduled. Throws TokenRevokedError like refreshAccessToken.
+ */
+export async function refreshAccountAccessToken(
+  manager: AccountManager,
+  account: ManagedAccount,
+  client: PluginClient,
+): Promise<OAuthAuthDetails | undefined> {
+  const key = account.parts.refreshToken;
+  let pending = inFlightRefreshes.get(key);
+  if (!pending) {
+    pending = refreshAccessToken(manager.accountToAuth(account), client).finally(() => {
+      inFlightRefreshes.delete(key);
+    });
+    inFlightRefreshes.set(key, pending);
+  } else {
+    log.debug("Joining in-flight token refresh", { accountId: account.id, accountEmail: account.email });
+  }
+
+  const refreshed = await pending;
+  if (refreshed) {
+    const parts = parseRefreshParts(refreshed.refresh);
+    manager.updateAccount(account, refreshed.access, refreshed.expires, parts);
+    scheduleAccountRefresh(account);
+  }
+  return refreshed;
+}
+
+/**
+ * Copies access tokens refreshed elsewhere in the process (e.g. by the background scheduler) into a freshly
+ * loaded manager and makes sure every usable account has a refresh scheduled.
+ */
+export function hydrateAccountsFromCache(manager: AccountManager): void {
+  for (const account of manager.getAccounts()) {
+    const cached = resolveCachedAuth(manager.accountToAuth(account));
+    if (cached.access && cached.access !== account.access) {
+      manager.updateAccount(account, cached.access, cached.expires);
+    }
+    scheduleAccountRefresh(account);
+  }
+}
+
+/**
+ * Enables background refreshes. Set ANTIGRAVITY_BACKGROUND_REFRESH=0 to refresh only on demand.
+ */
+export function startTokenRefreshScheduler(getAuth: GetAuth, client: PluginClient): void {
+  if (process.env.ANTIGRAVITY_BACKGROUND_REFRESH === "0") {
+    return;
+  }
+  schedulerContext = { getAuth, client };
+}
+
+/**
+ * Cancels all pending background refreshes and disables scheduling.
+ */
+export function stopTokenRefreshScheduler(): void {
+  schedulerContext = null;
+  for (const timer of refreshTimers.values()) {
+    clearTimeout(timer);
+  }
+  refreshTimers.clear();
+}
+
+function cancelScheduledRefresh(accountId: string): void {
+  const timer = refreshTimers.get(accountId);
+  if (timer) {
+    clearTimeout(timer);
+    refreshTimers.delete(accountId);
+  }
+}
+
+function scheduleAccountRefresh(account: ManagedAccount): void {
+  if (!schedulerContext || account.disabled || account.needsReauth) {
+    return;
+  }
+
+  const delayMs = account.access && account.expires ? account.expires - REFRESH_LEAD_MS - Date.now() : 0;
+  scheduleRefreshIn(account.id, delayMs);
+}
+
+function scheduleRefreshIn(accountId: string, delayMs: number): void {
+  cancelScheduledRefresh(accountId);
+  const timer = setTimeout(() => {
+    refreshTimers.delete(accountId);
+    void runScheduledRefresh(accountId);
+  }, Math.max(0, delayMs));
+  // Never keep the process alive just to refresh tokens.
+  timer.unref?.();
+  refreshTimers.set(accountId, timer);
+}
+
+async function runScheduledRefresh(accountId: string): Promise<void> {
+  const context = schedulerContext;
+  if (!context) {
+    return;
+  }
+
+  const auth = await context.getAuth().catch(() => null);
+  if (!auth || !isOAuthAuth(auth)) {
+    return;
+  }
+
+  // The shared manager, so the refresh lands on current state rather than a snapshot from when it was scheduled.
+  const manager = await getSharedAccountManager(auth);
+  const account = manager.getAccountById(accountId);
+  if (!account || account.disabled || account.needsReauth) {
+    return;
+  }
+
+  const cached = resolveCachedAuth(manager.accountToAuth(account));
+  if (cached.access && cached.expires - REFRESH_LEAD_MS > Date.now()) {
+    // Someone refreshed this account since the timer was set.
+    manager.updateAccount(account, cached.access, cached.expires);
+    scheduleAccountRefresh(account);
+    return;
+  }
+
+  const refreshToken = account.parts.refreshToken;
+  try {
+    const refreshed = await refreshAccountAccessToken(manager, account, context.client);
+    if (!refreshed) {
+      scheduleRefreshIn(accountId, REFRESH_RETRY_MS);
+      return;
+    }
+
+    log.debug("Refreshed access token in background", { accountId: account.id, accountEmail: account.email });
+
+    // Google rotated the refresh token; persist it before the old one stops working.
+    if (account.parts.refreshToken !== refreshToken) {
+      await manager.save();
+      await context.client.auth.set({
+        path: { id: ANTIGRAVITY_PROVIDER_ID },
+        body: manager.toAuthDetails(),
+      });
+    }
+  } catch (error) {
+    if (error instanceof TokenRevokedError) {
+      manager.markNeedsReauth(account);
+      log.warn("Background refresh found a revoked refresh token", { accountId: account.id, accountEmail: account.email });
+      try {
+        await manager.save();
+      } catch {}
+      return;
+    }
+    log.warn("Background token refresh failed", {
+      accountId: account.id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    scheduleRefreshIn(accountId, REFRESH_RETRY_MS);
+  }
+}
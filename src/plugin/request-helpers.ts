@@ -74,6 +74,7 @@ export interface GeminiUsageMetadata {
   promptTokenCount?: number;
   candidatesTokenCount?: number;
   cachedContentTokenCount?: number;
+  thoughtsTokenCount?: number;
 }
 
 /**
@@ -168,6 +169,7 @@ export function extractUsageMetadata(body: GeminiApiBody): GeminiUsageMetadata |
     promptTokenCount: toNumber(asRecord.promptTokenCount),
     candidatesTokenCount: toNumber(asRecord.candidatesTokenCount),
     cachedContentTokenCount: toNumber(asRecord.cachedContentTokenCount),
+    thoughtsTokenCount: toNumber(asRecord.thoughtsTokenCount),
   };
 }
 
@@ -244,6 +246,28 @@ function needsPreviewAccessOverride(
   return isGeminiThreeModel(errorMessage);
 }
 
+/**
+ * Whether a 403/404 means this account lacks access to the requested model (e.g. no Gemini 3 preview or
+ * Claude access) rather than a problem with the request or the project as a whole.
+ */
+export function isModelAccessError(status: number, body: GeminiApiBody, requestedModel?: string): boolean {
+  if (status !== 403 && status !== 404) {
+    return false;
+  }
+  if (needsPreviewAccessOverride(status, body, requestedModel)) {
+    return true;
+  }
+
+  const message = typeof body.error?.message === "string" ? body.error.message.toLowerCase() : "";
+  if (!message) {
+    return false;
+  }
+  if (requestedModel && message.includes(requestedModel.toLowerCase())) {
+    return true;
+  }
+  return /preview access|access to (this|the) model|model .*(not found|not supported|not available)/.test(message);
+}
+
 interface ErrorDetail {
   "@type": string;
   reason?: string;
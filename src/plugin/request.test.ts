@@ -1,5 +1,5 @@
 import { expect, test, describe } from "bun:test";
-import { prepareAntigravityRequest, isGenerativeLanguageRequest } from "./request";
+import { buildAntigravityRequest, prepareAntigravityRequest, isGenerativeLanguageRequest, withRequestCredentials } from "./request";
 import { overrideEndpointForRequest } from "./fetch-wrapper";
 import { CODE_ASSIST_ENDPOINT, CODE_ASSIST_ENDPOINT_FALLBACKS } from "../constants";
 
@@ -146,6 +146,33 @@ describe("URL Transformation", () => {
     const body = JSON.parse(result.init.body as string);
     expect(body.model).toBe("gemini-3-flash");
   });
+  test("sends a fallback model with thinking blocks stripped", async () => {
+    const url = "https://generativelanguage.googleapis.com/v1beta/models/gemini-claude-opus-4-5-thinking:streamGenerateContent";
+    const contents = [
+      { role: "user", parts: [{ text: "hi" }] },
+      { role: "model", parts: [{ text: "thinking...", thought: true, thoughtSignature: "sig".repeat(40) }] },
+      { role: "model", parts: [{ text: "hello", thoughtSignature: "sig".repeat(40) }] },
+      { role: "user", parts: [{ text: "again" }] },
+    ];
+
+    const result = await prepareAntigravityRequest(
+      url,
+      { method: "POST", body: JSON.stringify({ contents }) },
+      "dummy-token",
+      "dummy-project",
+      { model: "gemini-3-flash", stripThinking: true },
+    );
+
+    const body = JSON.parse(result.init.body as string);
+    expect(result.requestedModel).toBe("gemini-3-flash");
+    expect(body.model).toBe("gemini-3-flash");
+    expect(body.request.contents).toEqual([
+      { role: "user", parts: [{ text: "hi" }] },
+      { role: "model", parts: [{ text: "hello" }] },
+      { role: "user", parts: [{ text: "again" }] },
+    ]);
+    expect((result.init.headers as Headers).has("anthropic-beta")).toBe(false);
+  });
 });
 
 describe("Endpoint Fallback Override", () => {
@@ -183,3 +210,26 @@ describe("Endpoint Fallback Override", () => {
     expect(CODE_ASSIST_ENDPOINT_FALLBACKS[2]).toBe("https://cloudcode-pa.googleapis.com");
   });
 });
+
+describe("Prepared Requests", () => {
+  test("transforms once and swaps only credentials per attempt", async () => {
+    const url = "https://generativelanguage.googleapis.com/v1beta/models/gemini-claude-sonnet-4-5-thinking:streamGenerateContent";
+    const prepared = await buildAntigravityRequest(url, {
+      method: "POST",
+      body: JSON.stringify({ contents: [{ role: "user", parts: [{ text: "hi" }] }] }),
+    });
+
+    const first = withRequestCredentials(prepared, "token-1", "project-1");
+    const second = withRequestCredentials(prepared, "token-2", "project-$&-2");
+    const firstBody = JSON.parse(first.init.body as string);
+    const secondBody = JSON.parse(second.init.body as string);
+
+    expect((prepared.init.headers as Headers).has("Authorization")).toBe(false);
+    expect((first.init.headers as Headers).get("Authorization")).toBe("Bearer token-1");
+    expect((second.init.headers as Headers).get("Authorization")).toBe("Bearer token-2");
+    expect(firstBody.project).toBe("project-1");
+    expect(secondBody.project).toBe("project-$&-2");
+    expect(secondBody.requestId).toBe(firstBody.requestId);
+    expect(secondBody.request).toEqual(firstBody.request);
+  });
+});
@@ -12,13 +12,15 @@ import {
   recursivelyParseJsonStrings,
   rewriteGeminiPreviewAccessError,
   rewriteGeminiRateLimitError,
-  type GeminiApiBody
+  type GeminiApiBody,
+  type GeminiUsageMetadata,
 } from "./request-helpers";
 import {
   transformClaudeRequest,
   transformGeminiRequest,
   type TransformContext,
 } from "./transform";
+import { getStreamIdleTimeoutMs, superviseStream } from "./stream-supervisor";
 import type { PluginClient } from "./types";
 
 const log = createLogger("request");
@@ -357,10 +359,17 @@ function normalizeToolArgsInResponse(response: unknown): void {
   }
 }
 
-export function createSseTransformStream(onError?: (body: GeminiApiBody) => GeminiApiBody | null, sessionId?: string, family?: ModelFamily): TransformStream<string, string> {
+export function createSseTransformStream(
+  onError?: (body: GeminiApiBody) => GeminiApiBody | null,
+  sessionId?: string,
+  family?: ModelFamily,
+  onUsage?: (usage: GeminiUsageMetadata) => void,
+): TransformStream<string, string> {
   let buffer = "";
   const thoughtBuffers = new Map<number, string>();
   let sseEventSeq = 0;
+  // usageMetadata is cumulative across chunks, so only the last one seen is reported.
+  let lastUsage: GeminiUsageMetadata | null = null;
 
   return new TransformStream<string, string>({
     transform(chunk, controller) {
@@ -372,6 +381,9 @@ export function createSseTransformStream(onError?: (body: GeminiApiBody) => Gemi
         const eventSeq = sseEventSeq++;
 
         const transformed = transformSseLine(line, onError, (body) => {
+          if (onUsage) {
+            lastUsage = extractUsageMetadata(body) ?? lastUsage;
+          }
           if (!sessionId || !family) return;
           const response = body.response as any;
           if (!response?.candidates) return;
@@ -449,15 +461,23 @@ export function createSseTransformStream(onError?: (body: GeminiApiBody) => Gemi
     },
     flush(controller) {
       if (buffer.length > 0) {
-        const transformed = transformSseLine(buffer, onError);
+        const transformed = transformSseLine(buffer, onError, (body) => {
+          lastUsage = extractUsageMetadata(body) ?? lastUsage;
+        });
         controller.enqueue(transformed);
       }
+      if (lastUsage) {
+        onUsage?.(lastUsage);
+      }
     },
   });
 }
 
 
-function resolveModelName(rawModel: string): string {
+/**
+ * Maps a requested model name to the backend model, applying aliases and fallbacks.
+ */
+export function resolveModelName(rawModel: string): string {
   const aliased = MODEL_ALIASES[rawModel];
   if (aliased) {
     return aliased;
@@ -465,12 +485,56 @@ function resolveModelName(rawModel: string): string {
   return MODEL_FALLBACKS[rawModel] ?? rawModel;
 }
 
-export async function prepareAntigravityRequest(
+export interface PrepareRequestOptions {
+  /** Model to send instead of the one in the URL, e.g. a fallback. */
+  model?: string;
+  /** Drop thinking blocks and their signatures from the history, e.g. after switching providers. */
+  stripThinking?: boolean;
+}
+
+/**
+ * Removes thought parts and thought signatures from a Gemini-format payload. Turns left without parts
+ * are dropped.
+ */
+function stripThinkingParts(payload: Record<string, unknown>): void {
+  if (!Array.isArray(payload.contents)) {
+    return;
+  }
+  payload.contents = (payload.contents as Array<Record<string, unknown>>)
+    .map((content) => {
+      if (!content || !Array.isArray(content.parts)) {
+        return content;
+      }
+      const parts = (content.parts as Array<Record<string, unknown>>)
+        .filter((part) => part?.thought !== true)
+        .map(({ thoughtSignature: _signature, ...part }) => part);
+      return { ...content, parts };
+    })
+    .filter((content) => !content || !Array.isArray(content.parts) || content.parts.length > 0);
+}
+
+export interface PreparedAntigravityRequest {
+  request: RequestInfo;
+  init: RequestInit;
+  streaming: boolean;
+  requestedModel?: string;
+  /** Whether the access token and project ID still have to be filled in. */
+  needsCredentials: boolean;
+}
+
+/** Stands in for the project ID in transformed bodies until an attempt supplies the account's own. */
+const PROJECT_PLACEHOLDER = "__antigravity_project__";
+const PROJECT_PLACEHOLDER_JSON = JSON.stringify(PROJECT_PLACEHOLDER);
+
+/**
+ * Parses and transforms a request once, without credentials. The result can be sent with any account
+ * via `withRequestCredentials`, keeping the same request ID across retries.
+ */
+export async function buildAntigravityRequest(
   input: RequestInfo,
   init: RequestInit | undefined,
-  accessToken: string,
-  projectId: string,
-): Promise<{ request: RequestInfo; init: RequestInit; streaming: boolean; requestedModel?: string }> {
+  options: PrepareRequestOptions = {},
+): Promise<PreparedAntigravityRequest> {
   let urlString = "";
   let requestInit: RequestInit = { ...init };
   let originalBody: BodyInit | null = init?.body ?? null;
@@ -512,10 +576,10 @@ export async function prepareAntigravityRequest(
       request: input,
       init: { ...baseInit, headers },
       streaming: false,
+      needsCredentials: false,
     };
   }
 
-  headers.set("Authorization", `Bearer ${accessToken}`);
   headers.delete("x-api-key");
 
   const match = urlString.match(/\/models\/([^:]+):(\w+)/);
@@ -524,10 +588,12 @@ export async function prepareAntigravityRequest(
       request: input,
       init: { ...baseInit, headers },
       streaming: false,
+      needsCredentials: true,
     };
   }
 
-  const [, rawModel = "", rawAction = ""] = match;
+  const [, urlModel = "", rawAction = ""] = match;
+  const rawModel = options.model ?? urlModel;
   const effectiveModel = resolveModelName(rawModel);
   const streaming = rawAction === STREAM_ACTION;
   const transformedUrl = `${CODE_ASSIST_ENDPOINT}/v1internal:${rawAction}${streaming ? "?alt=sse" : ""
@@ -540,6 +606,12 @@ export async function prepareAntigravityRequest(
     try {
       const parsedBody = JSON.parse(baseInit.body) as Record<string, unknown>;
       const isWrapped = typeof parsedBody.project === "string" && "request" in parsedBody;
+      if (options.stripThinking) {
+        const payload = isWrapped ? parsedBody.request : parsedBody;
+        if (payload && typeof payload === "object") {
+          stripThinkingParts(payload as Record<string, unknown>);
+        }
+      }
       const isClaudeModel = effectiveModel.includes("claude");
 
       if (isWrapped) {
@@ -547,7 +619,7 @@ export async function prepareAntigravityRequest(
           const context: TransformContext = {
             model: effectiveModel,
             family: getModelFamily(effectiveModel),
-            projectId: (parsedBody.project as string) || projectId,
+            projectId: (parsedBody.project as string) || PROJECT_PLACEHOLDER,
             streaming,
             requestId: generateRequestId(),
             sessionId: getSessionId(),
@@ -576,7 +648,7 @@ export async function prepareAntigravityRequest(
         const context: TransformContext = {
           model: effectiveModel,
           family: getModelFamily(effectiveModel),
-          projectId,
+          projectId: PROJECT_PLACEHOLDER,
           streaming,
           requestId: generateRequestId(),
           sessionId: getSessionId(),
@@ -629,12 +701,46 @@ export async function prepareAntigravityRequest(
     },
     streaming,
     requestedModel: rawModel,
+    needsCredentials: true,
   };
 }
 
+/**
+ * Fills in one attempt's access token and project ID. Only the header and the body's leading `project`
+ * field change; the transformed body is reused as is.
+ */
+export function withRequestCredentials(
+  prepared: PreparedAntigravityRequest,
+  accessToken: string,
+  projectId: string,
+): PreparedAntigravityRequest {
+  if (!prepared.needsCredentials) {
+    return prepared;
+  }
+
+  const headers = new Headers(prepared.init.headers ?? {});
+  headers.set("Authorization", `Bearer ${accessToken}`);
+  const body =
+    typeof prepared.init.body === "string"
+      ? prepared.init.body.replace(PROJECT_PLACEHOLDER_JSON, () => JSON.stringify(projectId))
+      : prepared.init.body;
+  return { ...prepared, init: { ...prepared.init, headers, body }, needsCredentials: false };
+}
+
+export async function prepareAntigravityRequest(
+  input: RequestInfo,
+  init: RequestInit | undefined,
+  accessToken: string,
+  projectId: string,
+  options: PrepareRequestOptions = {},
+): Promise<PreparedAntigravityRequest> {
+  return withRequestCredentials(await buildAntigravityRequest(input, init, options), accessToken, projectId);
+}
+
 /**
  * Normalizes Gemini responses: applies retry headers, extracts cache usage into headers,
  * rewrites preview errors, flattens streaming payloads, and logs debug metadata.
+ * `onUsage` receives the response's final usageMetadata, after the stream ends for SSE passthrough.
  */
 export async function transformAntigravityResponse(
   response: Response,
@@ -643,6 +749,7 @@ export async function transformAntigravityResponse(
   debugContext?: AntigravityDebugContext | null,
   requestedModel?: string,
   sessionId?: string,
+  onUsage?: (usage: GeminiUsageMetadata) => void,
 ): Promise<Response> {
   const contentType = response.headers.get("content-type") ?? "";
   const isJsonResponse = contentType.includes("application/json");
@@ -676,9 +783,9 @@ export async function transformAntigravityResponse(
       note: "Streaming SSE (passthrough mode)",
     });
 
-    const transformedBody = response.body
+    const transformedBody = superviseStream(response.body, getStreamIdleTimeoutMs())
       .pipeThrough(new TextDecoderStream())
-      .pipeThrough(createSseTransformStream(errorHandler, sessionId, family))
+      .pipeThrough(createSseTransformStream(errorHandler, sessionId, family, onUsage))
       .pipeThrough(new TextEncoderStream());
 
     return new Response(transformedBody, {
@@ -737,6 +844,7 @@ export async function transformAntigravityResponse(
 
     const usage = usageFromSse ?? (effectiveBody ? extractUsageMetadata(effectiveBody) : null);
     if (usage) {
+      onUsage?.(usage);
       log.debug("Usage metadata", {
         cachedContentTokenCount: usage.cachedContentTokenCount,
         promptTokenCount: usage.promptTokenCount,
@@ -1,11 +1,11 @@
 import {
-  CODE_ASSIST_ENDPOINT,
   CODE_ASSIST_HEADERS,
   SEARCH_MODEL,
   SEARCH_THINKING_BUDGET_DEEP,
   SEARCH_THINKING_BUDGET_FAST,
   SEARCH_TIMEOUT_MS,
 } from "../constants";
+import { getPreferredEndpoint } from "./endpoint-health";
 import { createLogger } from "./logger";
 import { generateRequestId, getSessionId } from "./request-helpers";
 
@@ -247,7 +247,7 @@ export async function executeSearch(
     },
   };
 
-  const url = `${CODE_ASSIST_ENDPOINT}/v1internal:generateContent`;
+  const url = `${getPreferredEndpoint()}/v1internal:generateContent`;
 
   log.debug("Executing search", {
     query,
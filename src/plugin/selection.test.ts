@@ -0,0 +1,93 @@
+import { describe, expect, it } from "bun:test";
+
+import { AccountManager } from "./accounts";
+import { recordRemainingQuota } from "./quota";
+import { beginAccountRequest, createQuotaWeightedStrategy, parseSelectionConfig } from "./selection";
+import type { OAuthAuthDetails } from "./types";
+
+const FAMILY = "claude" as const;
+
+function createManager(strategy: Parameters<typeof parseSelectionConfig>[0]): AccountManager {
+  const auth: OAuthAuthDetails = {
+    type: "oauth",
+    refresh: "refresh_1|project_1||refresh_2|project_2||refresh_3|project_3",
+    access: "access_1",
+    expires: Date.now() + 3600000,
+  };
+  return new AccountManager(auth, null, parseSelectionConfig(strategy));
+}
+
+describe("parseSelectionConfig", () => {
+  it("accepts a single default strategy", () => {
+    expect(parseSelectionConfig("least-in-flight")).toEqual({ default: "least-in-flight" });
+  });
+
+  it("accepts per-family strategies and ignores invalid entries", () => {
+    expect(parseSelectionConfig("claude=round-robin, gemini-pro=quota,default=lru,gpt=sticky,claude-x=bogus")).toEqual({
+      claude: "round-robin",
+      "gemini-pro": "quota",
+      default: "lru",
+    });
+  });
+});
+
+describe("selection strategies", () => {
+  it("sticky keeps the current account", () => {
+    const manager = createManager(undefined);
+    expect(manager.getCurrentOrNextForFamily(FAMILY)?.index).toBe(0);
+    expect(manager.getCurrentOrNextForFamily(FAMILY)?.index).toBe(0);
+  });
+
+  it("round-robin advances on every request", () => {
+    const manager = createManager("round-robin");
+    const picks = [1, 2, 3, 4].map(() => manager.getCurrentOrNextForFamily(FAMILY)?.index);
+    expect(picks).toEqual([1, 2, 0, 1]);
+  });
+
+  it("round-robin only applies to the configured family", () => {
+    const manager = createManager("claude=round-robin");
+    manager.getCurrentOrNextForFamily("gemini-pro");
+    expect(manager.getCurrentOrNextForFamily("gemini-pro")?.index).toBe(0);
+    expect(manager.getCurrentOrNextForFamily(FAMILY)?.index).toBe(1);
+  });
+
+  it("lru picks the least recently used account", () => {
+    const manager = createManager("lru");
+    const [a, b, c] = manager.getAccounts();
+    a!.lastUsed = 300;
+    b!.lastUsed = 100;
+    c!.lastUsed = 200;
+    expect(manager.getCurrentOrNextForFamily(FAMILY)?.index).toBe(1);
+    expect(manager.getCurrentOrNextForFamily(FAMILY)?.index).toBe(2);
+  });
+
+  it("least-in-flight spreads concurrent requests", () => {
+    const manager = createManager("least-in-flight");
+    const releases = [1, 2, 3].map(() => beginAccountRequest(manager.getCurrentOrNextForFamily(FAMILY)!));
+    expect(new Set(manager.getAccounts().map((a) => a.lastUsed > 0)).size).toBe(1);
+
+    releases[1]!();
+    expect(manager.getCurrentOrNextForFamily(FAMILY)?.index).toBe(1);
+    releases.forEach((release) => release());
+  });
+
+  it("quota weighting skips accounts with no remaining quota", () => {
+    const manager = createManager(undefined);
+    const [a, b, c] = manager.getAccounts();
+    recordRemainingQuota(a!, FAMILY, 0);
+    recordRemainingQuota(b!, FAMILY, 0.25);
+    recordRemainingQuota(c!, FAMILY, 0.75);
+
+    const strategy = createQuotaWeightedStrategy(() => 0.2);
+    const context = { family: FAMILY, current: null, nextCursor: () => 0 };
+    expect(strategy.select(manager.getAccounts(), context).index).toBe(1);
+    expect(createQuotaWeightedStrategy(() => 0.5).select(manager.getAccounts(), context).index).toBe(2);
+  });
+
+  it("still prefers paid accounts", () => {
+    const manager = createManager("round-robin");
+    manager.getAccounts()[2]!.tier = "paid";
+    expect(manager.getCurrentOrNextForFamily(FAMILY)?.index).toBe(2);
+    expect(manager.getCurrentOrNextForFamily(FAMILY)?.index).toBe(2);
+  });
+});
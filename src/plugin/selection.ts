@@ -0,0 +1,182 @@
+import { ENV_ACCOUNT_SELECTION } from "../constants";
+import type { ManagedAccount, ModelFamily } from "./accounts";
+import { createLogger } from "./logger";
+import { getRemainingQuota } from "./quota";
+
+const log = createLogger("selection");
+
+export const SELECTION_STRATEGY_NAMES = ["sticky", "round-robin", "lru", "least-in-flight", "quota"] as const;
+export type SelectionStrategyName = (typeof SELECTION_STRATEGY_NAMES)[number];
+
+/**
+ * Strategy per model family; families without an entry use `default`, then sticky.
+ */
+export type SelectionConfig = Partial<Record<ModelFamily | "default", SelectionStrategyName>>;
+
+export interface SelectionContext {
+  family: ModelFamily;
+  /** Account used by the previous request, if any. */
+  current: ManagedAccount | null;
+  /** Advances the manager's rotation cursor and returns its previous value. */
+  nextCursor(): number;
+}
+
+/**
+ * Picks one account from `pool`: the accounts that are usable, not rate-limited for the family, and already
+ * narrowed to paid accounts when any are available. `pool` is never empty and is ordered by position.
+ */
+export interface SelectionStrategy {
+  readonly name: SelectionStrategyName;
+  select(pool: ManagedAccount[], context: SelectionContext): ManagedAccount;
+}
+
+// Process-wide so that concurrent requests (e.g. parallel subagents) see each other's load.
+const inFlightByAccount = new Map<string, number>();
+
+/**
+ * Counts a request against an account until the returned release function is called. Idempotent release.
+ */
+export function beginAccountRequest(account: ManagedAccount): () => void {
+  const key = account.id;
+  inFlightByAccount.set(key, (inFlightByAccount.get(key) ?? 0) + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const remaining = (inFlightByAccount.get(key) ?? 1) - 1;
+    if (remaining > 0) {
+      inFlightByAccount.set(key, remaining);
+    } else {
+      inFlightByAccount.delete(key);
+    }
+  };
+}
+
+export function getInFlightCount(account: ManagedAccount): number {
+  return inFlightByAccount.get(account.id) ?? 0;
+}
+
+/** Keeps the current account until it becomes unavailable, then rotates through the pool. */
+const sticky: SelectionStrategy = {
+  name: "sticky",
+  select(pool, { current, nextCursor }) {
+    if (current && pool.includes(current)) {
+      return current;
+    }
+    return pool[nextCursor() % pool.length]!;
+  },
+};
+
+/** Moves to the next account by position on every request. */
+const roundRobin: SelectionStrategy = {
+  name: "round-robin",
+  select(pool, { current }) {
+    if (!current) {
+      return pool[0]!;
+    }
+    return pool.find((account) => account.index > current.index) ?? pool[0]!;
+  },
+};
+
+/** Picks the account whose `lastUsed` is oldest. */
+const leastRecentlyUsed: SelectionStrategy = {
+  name: "lru",
+  select(pool) {
+    return pool.reduce((best, account) => (account.lastUsed < best.lastUsed ? account : best));
+  },
+};
+
+/** Picks the account with the fewest requests in flight in this process; ties go to the least recently used. */
+const leastInFlight: SelectionStrategy = {
+  name: "least-in-flight",
+  select(pool) {
+    return pool.reduce((best, account) => {
+      const diff = getInFlightCount(account) - getInFlightCount(best);
+      return diff < 0 || (diff === 0 && account.lastUsed < best.lastUsed) ? account : best;
+    });
+  },
+};
+
+/**
+ * Picks randomly, weighted by each account's known remaining quota for the family. Accounts without a
+ * known value get full weight so they are sampled until quota is observed.
+ */
+export function createQuotaWeightedStrategy(random: () => number = Math.random): SelectionStrategy {
+  return {
+    name: "quota",
+    select(pool, { family }) {
+      const weights = pool.map((account) => getRemainingQuota(account, family) ?? 1);
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      if (total <= 0) {
+        return leastRecentlyUsed.select(pool, { family, current: null, nextCursor: () => 0 });
+      }
+      let threshold = random() * total;
+      for (let i = 0; i < pool.length; i++) {
+        threshold -= weights[i]!;
+        if (threshold < 0) {
+          return pool[i]!;
+        }
+      }
+      return pool[pool.length - 1]!;
+    },
+  };
+}
+
+const BUILT_IN_STRATEGIES: Record<SelectionStrategyName, SelectionStrategy> = {
+  sticky,
+  "round-robin": roundRobin,
+  lru: leastRecentlyUsed,
+  "least-in-flight": leastInFlight,
+  quota: createQuotaWeightedStrategy(),
+};
+
+export function getSelectionStrategy(name: SelectionStrategyName): SelectionStrategy {
+  return BUILT_IN_STRATEGIES[name];
+}
+
+function isStrategyName(value: string): value is SelectionStrategyName {
+  return (SELECTION_STRATEGY_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Parses ANTIGRAVITY_ACCOUNT_SELECTION: either a single strategy (`least-in-flight`) or comma-separated
+ * `family=strategy` pairs with an optional default (`claude=least-in-flight,gemini-pro=quota,default=sticky`).
+ * Unknown entries are logged and ignored.
+ */
+export function parseSelectionConfig(raw: string | undefined): SelectionConfig {
+  const config: SelectionConfig = {};
+  if (!raw?.trim()) {
+    return config;
+  }
+
+  for (const entry of raw.split(",")) {
+    const [left, right] = entry.split("=").map((part) => part.trim().toLowerCase());
+    const key = right === undefined ? "default" : left;
+    const value = right ?? left;
+    if (!key || !value) continue;
+
+    if (!isStrategyName(value) || !["default", "claude", "gemini-flash", "gemini-pro"].includes(key)) {
+      log.warn("Ignoring invalid account selection entry", { entry, strategies: SELECTION_STRATEGY_NAMES });
+      continue;
+    }
+    config[key as keyof SelectionConfig] = value;
+  }
+  return config;
+}
+
+let cachedEnvConfig: { raw: string | undefined; config: SelectionConfig } | undefined;
+
+/**
+ * Selection config from the environment, parsed once per distinct value.
+ */
+export function getSelectionConfig(): SelectionConfig {
+  const raw = process.env[ENV_ACCOUNT_SELECTION];
+  if (!cachedEnvConfig || cachedEnvConfig.raw !== raw) {
+    cachedEnvConfig = { raw, config: parseSelectionConfig(raw) };
+  }
+  return cachedEnvConfig.config;
+}
+
+export function resolveStrategyName(config: SelectionConfig, family: ModelFamily): SelectionStrategyName {
+  return config[family] ?? config.default ?? "sticky";
+}
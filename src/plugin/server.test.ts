@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { createServer, type Server } from "node:http";
+import { getCallbackPortCandidates, startOAuthListener, type OAuthListener } from "./server";
+
+describe("getCallbackPortCandidates", () => {
+  it("should default to the standard callback port", () => {
+    expect(getCallbackPortCandidates(undefined)).toEqual([36742]);
+  });
+
+  it("should parse a single port and a range", () => {
+    expect(getCallbackPortCandidates("40000")).toEqual([40000]);
+    expect(getCallbackPortCandidates("40000-40002")).toEqual([40000, 40001, 40002]);
+  });
+
+  it("should use only an OS-assigned port for 0", () => {
+    expect(getCallbackPortCandidates("0")).toEqual([]);
+  });
+
+  it("should ignore invalid values", () => {
+    expect(getCallbackPortCandidates("40002-40000")).toEqual([36742]);
+    expect(getCallbackPortCandidates("abc")).toEqual([36742]);
+  });
+});
+
+describe("startOAuthListener", () => {
+  let listener: OAuthListener | null = null;
+  let blocker: Server | null = null;
+
+  afterEach(async () => {
+    await listener?.close().catch(() => {});
+    await listener?.waitForCallback().catch(() => {});
+    listener = null;
+    await new Promise<void>((resolve) => (blocker ? blocker.close(() => resolve()) : resolve()));
+    blocker = null;
+    delete process.env.ANTIGRAVITY_CALLBACK_PORT;
+  });
+
+  it("should fall back to another port when the configured one is busy", async () => {
+    blocker = createServer();
+    await new Promise<void>((resolve) => blocker!.listen(0, "127.0.0.1", () => resolve()));
+    const busyPort = (blocker.address() as { port: number }).port;
+    process.env.ANTIGRAVITY_CALLBACK_PORT = String(busyPort);
+
+    listener = await startOAuthListener({ validateState: () => true });
+    const port = Number.parseInt(new URL(listener.redirectUri).port, 10);
+
+    expect(port).not.toBe(busyPort);
+    expect(listener.redirectUri).toBe(`http://localhost:${port}/oauth-callback`);
+
+    const response = await fetch(`http://127.0.0.1:${port}/oauth-callback?code=abc&state=s`);
+    expect(response.status).toBe(200);
+    expect((await listener.waitForCallback()).searchParams.get("code")).toBe("abc");
+  });
+
+  it("should reject callbacks with an invalid state and keep waiting", async () => {
+    process.env.ANTIGRAVITY_CALLBACK_PORT = "0";
+    listener = await startOAuthListener({ validateState: (state) => state === "good" });
+    const base = listener.redirectUri.replace("localhost", "127.0.0.1");
+
+    const forged = await fetch(`${base}?code=abc&state=bad`);
+    expect(forged.status).toBe(400);
+
+    const denied = await fetch(`${base}?error=access_denied&state=good`);
+    expect(denied.status).toBe(403);
+    expect((await listener.waitForCallback()).searchParams.get("error")).toBe("access_denied");
+  });
+});
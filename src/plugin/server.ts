@@ -1,5 +1,9 @@
-import { createServer } from "node:http";
-import { ANTIGRAVITY_REDIRECT_URI } from "../constants";
+import { createServer, type RequestListener, type Server } from "node:http";
+import { hasPendingAuthorization } from "../antigravity/oauth";
+import { ANTIGRAVITY_CALLBACK_PATH, ANTIGRAVITY_CALLBACK_PORT, ENV_CALLBACK_PORT, buildRedirectUri } from "../constants";
+import { createLogger } from "./logger";
+
+const log = createLogger("server");
 
 
 interface OAuthListenerOptions {
@@ -7,9 +11,18 @@ interface OAuthListenerOptions {
    * How long to wait for the OAuth redirect before timing out (in milliseconds).
    */
   timeoutMs?: number;
+  /**
+   * Decides whether a callback's `state` belongs to an authorization this process started.
+   * Callbacks that fail the check are answered with an error page and otherwise ignored.
+   */
+  validateState?: (state: string | null) => boolean;
 }
 
 export interface OAuthListener {
+  /**
+   * Redirect URI matching the port the listener actually bound; pass it to `authorizeAntigravity`.
+   */
+  redirectUri: string;
   /**
    * Resolves with the callback URL once Google redirects back to the local server.
    */
@@ -20,42 +33,70 @@ export interface OAuthListener {
   close(): Promise<void>;
 }
 
-const redirectUri = new URL(ANTIGRAVITY_REDIRECT_URI);
-const callbackPath = redirectUri.pathname || "/";
+interface CallbackPage {
+  status: number;
+  heading: string;
+  message: string;
+  note: string;
+  isError?: boolean;
+}
+
+const SUCCESS_PAGE: CallbackPage = {
+  status: 200,
+  heading: "You're connected to Opencode",
+  message: "Your Google account is now linked to Opencode. You can close this window and continue in the CLI.",
+  note: "Need to reconnect later? Re-run the authentication command in Opencode.",
+};
+
+const RETRY_NOTE = "Re-run the authentication command in Opencode to try again.";
 
 /**
- * Starts a lightweight HTTP server that listens for the Antigravity OAuth redirect
- * and resolves with the captured callback URL.
+ * Picks the page to render for a callback whose state has already been validated.
  */
-export async function startOAuthListener(
-  { timeoutMs = 5 * 60 * 1000 }: OAuthListenerOptions = {},
-): Promise<OAuthListener> {
-  const port = redirectUri.port
-    ? Number.parseInt(redirectUri.port, 10)
-    : redirectUri.protocol === "https:"
-    ? 443
-    : 80;
-  const origin = `${redirectUri.protocol}//${redirectUri.host}`;
-
-  let settled = false;
-  let resolveCallback: (url: URL) => void;
-  let rejectCallback: (error: Error) => void;
-  const callbackPromise = new Promise<URL>((resolve, reject) => {
-    resolveCallback = (url: URL) => {
-      if (settled) return;
-      settled = true;
-      if (timeoutHandle) clearTimeout(timeoutHandle);
-      resolve(url);
+function getCallbackPage(url: URL): CallbackPage {
+  const oauthError = url.searchParams.get("error");
+  if (oauthError === "access_denied") {
+    return {
+      status: 403,
+      heading: "Access was not granted",
+      message: "Google reported that consent was declined, so Opencode was not linked to your account.",
+      note: RETRY_NOTE,
+      isError: true,
     };
-    rejectCallback = (error: Error) => {
-      if (settled) return;
-      settled = true;
-      if (timeoutHandle) clearTimeout(timeoutHandle);
-      reject(error);
+  }
+  if (oauthError) {
+    const description = url.searchParams.get("error_description");
+    return {
+      status: 400,
+      heading: "Sign-in failed",
+      message: `Google returned "${oauthError}"${description ? `: ${description}` : ""}.`,
+      note: RETRY_NOTE,
+      isError: true,
     };
-  });
+  }
+  if (!url.searchParams.get("code")) {
+    return {
+      status: 400,
+      heading: "Sign-in incomplete",
+      message: "The redirect from Google did not include an authorization code.",
+      note: RETRY_NOTE,
+      isError: true,
+    };
+  }
+  return SUCCESS_PAGE;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
 
-const successResponse = `<!DOCTYPE html>
+function renderCallbackPage(page: CallbackPage): string {
+  return `<!DOCTYPE html>
 <html lang="en">
   <head>
     <meta charset="utf-8" />
@@ -172,75 +213,207 @@ const successResponse = `<!DOCTYPE html>
             <path fill="#EA4335" d="M23 9.5c3.2 0 6 .9 8.3 2.7l6.2-6.2C33.6 2.2 28.8 0 23 0 14.6 0 7.3 5.1 3.8 12.4l7.1 5.6c1.7-5 6.5-8.5 12.1-8.5z"/>
           </svg>
         </span>
-        <span class="brand">Antigravity linked to Opencode</span>
+        <span class="brand">${page.isError ? "Antigravity sign-in" : "Antigravity linked to Opencode"}</span>
       </header>
-      <h1>You're connected to Opencode</h1>
-      <p>Your Google account is now linked to Opencode. You can close this window and continue in the CLI.</p>
+      <h1>${escapeHtml(page.heading)}</h1>
+      <p>${escapeHtml(page.message)}</p>
       <a class="action" href="javascript:window.close()">Close window</a>
-      <p class="note">Need to reconnect later? Re-run the authentication command in Opencode.</p>
+      <p class="note">${escapeHtml(page.note)}</p>
     </main>
   </body>
 </html>`;
+}
 
-  const timeoutHandle = setTimeout(() => {
-    rejectCallback(new Error("Timed out waiting for OAuth callback"));
-  }, timeoutMs);
-  timeoutHandle.unref?.();
+const LOOPBACK_HOSTS = ["127.0.0.1", "::1"] as const;
+
+/**
+ * Ports to try for the callback listener, from `ANTIGRAVITY_CALLBACK_PORT` (a single port such as
+ * `36742` or a range such as `36742-36750`). An OS-assigned port is used when all of them are busy.
+ */
+export function getCallbackPortCandidates(raw = process.env[ENV_CALLBACK_PORT]): number[] {
+  const value = raw?.trim();
+  if (!value) {
+    return [ANTIGRAVITY_CALLBACK_PORT];
+  }
+
+  const match = value.match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+  const start = match?.[1] ? Number.parseInt(match[1], 10) : NaN;
+  const end = match?.[2] ? Number.parseInt(match[2], 10) : start;
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end > 65535 || end < start) {
+    log.warn("Ignoring invalid callback port setting", { value });
+    return [ANTIGRAVITY_CALLBACK_PORT];
+  }
+  if (start === 0) {
+    return [];
+  }
+
+  const ports: number[] = [];
+  for (let port = start; port <= end; port++) {
+    ports.push(port);
+  }
+  return ports;
+}
+
+function listenOn(server: Server, port: number, host: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const handleError = (error: Error) => {
+      server.off("error", handleError);
+      reject(error);
+    };
+    server.once("error", handleError);
+    server.listen(port, host, () => {
+      server.off("error", handleError);
+      resolve();
+    });
+  });
+}
+
+function closeServer(server: Server): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    server.close((error) => {
+      if (error && (error as NodeJS.ErrnoException).code !== "ERR_SERVER_NOT_RUNNING") {
+        reject(error);
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * Binds the same port on the IPv4 and IPv6 loopback addresses so `localhost` works whichever
+ * family it resolves to. Hosts without IPv6 fall back to IPv4 only. Returns null when the port
+ * is taken on either address.
+ */
+async function bindLoopback(
+  port: number,
+  handler: RequestListener,
+): Promise<{ servers: Server[]; port: number } | null> {
+  const servers: Server[] = [];
+  let boundPort = port;
+
+  for (const host of LOOPBACK_HOSTS) {
+    const server = createServer(handler);
+    try {
+      await listenOn(server, boundPort, host);
+      const address = server.address();
+      if (address && typeof address === "object") {
+        boundPort = address.port;
+      }
+      servers.push(server);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (host === "::1" && (code === "EADDRNOTAVAIL" || code === "EAFNOSUPPORT")) {
+        continue;
+      }
+      await Promise.all(servers.map((s) => closeServer(s).catch(() => {})));
+      if (code === "EADDRINUSE" || code === "EACCES") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  return { servers, port: boundPort };
+}
+
+/**
+ * Starts a lightweight HTTP server that listens for the Antigravity OAuth redirect
+ * and resolves with the captured callback URL.
+ */
+export async function startOAuthListener(
+  { timeoutMs = 5 * 60 * 1000, validateState = hasPendingAuthorization }: OAuthListenerOptions = {},
+): Promise<OAuthListener> {
+  let settled = false;
+  let servers: Server[] = [];
+  let resolveCallback: (url: URL) => void;
+  let rejectCallback: (error: Error) => void;
+  const callbackPromise = new Promise<URL>((resolve, reject) => {
+    resolveCallback = (url: URL) => {
+      if (settled) return;
+      settled = true;
+      if (timeoutHandle) clearTimeout(timeoutHandle);
+      resolve(url);
+    };
+    rejectCallback = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      if (timeoutHandle) clearTimeout(timeoutHandle);
+      reject(error);
+    };
+  });
 
-  const server = createServer((request, response) => {
+  const handler: RequestListener = (request, response) => {
     if (!request.url) {
       response.writeHead(400, { "Content-Type": "text/plain" });
       response.end("Invalid request");
       return;
     }
 
-    const url = new URL(request.url, origin);
-    if (url.pathname !== callbackPath) {
+    const url = new URL(request.url, "http://localhost");
+    if (url.pathname !== ANTIGRAVITY_CALLBACK_PATH) {
       response.writeHead(404, { "Content-Type": "text/plain" });
       response.end("Not found");
       return;
     }
 
-    response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
-    response.end(successResponse);
+    if (settled || !validateState(url.searchParams.get("state"))) {
+      response.writeHead(400, { "Content-Type": "text/html; charset=utf-8" });
+      response.end(renderCallbackPage({
+        status: 400,
+        heading: "Invalid sign-in request",
+        message: "This sign-in link is unknown, expired or was already used.",
+        note: RETRY_NOTE,
+        isError: true,
+      }));
+      return;
+    }
+
+    const page = getCallbackPage(url);
+    response.writeHead(page.status, { "Content-Type": "text/html; charset=utf-8" });
+    response.end(renderCallbackPage(page));
 
     resolveCallback(url);
 
     setImmediate(() => {
-      server.close();
+      servers.forEach((server) => server.close());
     });
-  });
+  };
 
-  await new Promise<void>((resolve, reject) => {
-    const handleError = (error: Error) => {
-      server.off("error", handleError);
-      reject(error);
-    };
-    server.once("error", handleError);
-    server.listen(port, "127.0.0.1", () => {
-      server.off("error", handleError);
-      resolve();
+  let bound: { servers: Server[]; port: number } | null = null;
+  for (const candidate of [...getCallbackPortCandidates(), 0]) {
+    bound = await bindLoopback(candidate, handler);
+    if (bound) {
+      break;
+    }
+    log.debug("Callback port busy, trying next", { port: candidate });
+  }
+  if (!bound) {
+    throw new Error("Could not bind a loopback port for the OAuth callback");
+  }
+  servers = bound.servers;
+
+  const timeoutHandle = setTimeout(() => {
+    rejectCallback(new Error("Timed out waiting for OAuth callback"));
+  }, timeoutMs);
+  timeoutHandle.unref?.();
+
+  for (const server of servers) {
+    server.on("error", (error) => {
+      rejectCallback(error instanceof Error ? error : new Error(String(error)));
     });
-  });
+  }
 
-  server.on("error", (error) => {
-    rejectCallback(error instanceof Error ? error : new Error(String(error)));
-  });
+  log.debug("OAuth callback listener started", { port: bound.port, hosts: servers.length });
 
   return {
+    redirectUri: buildRedirectUri(bound.port),
     waitForCallback: () => callbackPromise,
-    close: () =>
-      new Promise<void>((resolve, reject) => {
-        server.close((error) => {
-          if (error && (error as NodeJS.ErrnoException).code !== "ERR_SERVER_NOT_RUNNING") {
-            reject(error);
-            return;
-          }
-          if (!settled) {
-            rejectCallback(new Error("OAuth listener closed before callback"));
-          }
-          resolve();
-        });
-      }),
+    close: async () => {
+      await Promise.all(servers.map(closeServer));
+      if (!settled) {
+        rejectCallback(new Error("OAuth listener closed before callback"));
+      }
+    },
   };
 }
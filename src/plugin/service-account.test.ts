@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, mock } from "bun:test";
+import { createVerify, generateKeyPairSync } from "node:crypto";
+
+import {
+  buildServiceAccountRefreshToken,
+  describeGoogleCredentials,
+  GoogleCredentialsError,
+  isServiceAccountRefreshToken,
+  mintGoogleAccessToken,
+  type GoogleCredentials,
+} from "./service-account";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const serviceAccount: GoogleCredentials = {
+  type: "service_account",
+  client_email: "ci-runner@my-project.iam.gserviceaccount.com",
+  private_key: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+  private_key_id: "key-1",
+  project_id: "my-project",
+};
+
+describe("service account refresh tokens", () => {
+  it("marks key files and ADC", () => {
+    expect(buildServiceAccountRefreshToken()).toBe("adc:");
+    expect(buildServiceAccountRefreshToken("/etc/keys/ci.json")).toBe("service-account:/etc/keys/ci.json");
+    expect(isServiceAccountRefreshToken("adc:")).toBe(true);
+    expect(isServiceAccountRefreshToken("service-account:/etc/keys/ci.json")).toBe(true);
+    expect(isServiceAccountRefreshToken("1//user-refresh-token")).toBe(false);
+  });
+
+  it("takes email and project from the key file", () => {
+    expect(describeGoogleCredentials(serviceAccount)).toEqual({
+      email: "ci-runner@my-project.iam.gserviceaccount.com",
+      projectId: "my-project",
+    });
+  });
+});
+
+describe("mintGoogleAccessToken", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("exchanges a signed JWT assertion for an access token", async () => {
+    let body: URLSearchParams | undefined;
+    globalThis.fetch = mock(async (_input: RequestInfo | URL, init?: RequestInit) => {
+      body = init?.body as URLSearchParams;
+      return new Response(JSON.stringify({ access_token: "sa-access", expires_in: 3600 }), { status: 200 });
+    }) as unknown as typeof fetch;
+
+    const result = await mintGoogleAccessToken(serviceAccount);
+
+    expect(result.access).toBe("sa-access");
+    expect(body?.get("grant_type")).toBe("urn:ietf:params:oauth:grant-type:jwt-bearer");
+
+    const [header, claims, signature] = body!.get("assertion")!.split(".");
+    const decodedClaims = JSON.parse(Buffer.from(claims!, "base64url").toString());
+    expect(JSON.parse(Buffer.from(header!, "base64url").toString())).toEqual({ alg: "RS256", typ: "JWT", kid: "key-1" });
+    expect(decodedClaims.iss).toBe("ci-runner@my-project.iam.gserviceaccount.com");
+    expect(decodedClaims.aud).toBe("https://oauth2.googleapis.com/token");
+    expect(
+      createVerify("RSA-SHA256").update(`${header}.${claims}`).verify(publicKey, Buffer.from(signature!, "base64url")),
+    ).toBe(true);
+  });
+
+  it("surfaces the OAuth error code", async () => {
+    globalThis.fetch = mock(async () =>
+      new Response(JSON.stringify({ error: "invalid_grant", error_description: "Invalid JWT Signature." }), { status: 400 }),
+    ) as unknown as typeof fetch;
+
+    const error = await mintGoogleAccessToken(serviceAccount).catch((e) => e);
+    expect(error).toBeInstanceOf(GoogleCredentialsError);
+    expect(error.code).toBe("invalid_grant");
+  });
+});
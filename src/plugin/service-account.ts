@@ -0,0 +1,190 @@
+import { createSign } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { homedir } from "node:os";
+import { join, resolve } from "node:path";
+
+/**
+ * Account refresh tokens that stand for non-interactive Google credentials instead of a user OAuth token.
+ * `service-account:<path>` points at a JSON key file; `adc:` resolves Application Default Credentials on
+ * every refresh, so CI runners can rotate GOOGLE_APPLICATION_CREDENTIALS without re-running login.
+ */
+const SERVICE_ACCOUNT_PREFIX = "service-account:";
+const ADC_REFRESH_TOKEN = "adc:";
+
+const GOOGLE_TOKEN_URI = "https://oauth2.googleapis.com/token";
+const SERVICE_ACCOUNT_SCOPES = [
+  "https://www.googleapis.com/auth/cloud-platform",
+  "https://www.googleapis.com/auth/userinfo.email",
+];
+const JWT_LIFETIME_SECONDS = 3600;
+
+interface ServiceAccountKey {
+  type: "service_account";
+  client_email: string;
+  private_key: string;
+  private_key_id?: string;
+  project_id?: string;
+  token_uri?: string;
+}
+
+interface AuthorizedUserCredentials {
+  type: "authorized_user";
+  client_id: string;
+  client_secret: string;
+  refresh_token: string;
+  quota_project_id?: string;
+}
+
+export type GoogleCredentials = ServiceAccountKey | AuthorizedUserCredentials;
+
+/**
+ * Raised when Google credentials cannot be loaded or exchanged. `code` carries the OAuth error code if any.
+ */
+export class GoogleCredentialsError extends Error {
+  constructor(message: string, readonly code?: string) {
+    super(message);
+    this.name = "GoogleCredentialsError";
+  }
+}
+
+export function isServiceAccountRefreshToken(refreshToken: string): boolean {
+  return refreshToken.startsWith(SERVICE_ACCOUNT_PREFIX) || refreshToken === ADC_REFRESH_TOKEN;
+}
+
+/**
+ * Builds the refresh token stored for a key file, or for Application Default Credentials when no path is given.
+ */
+export function buildServiceAccountRefreshToken(keyPath?: string): string {
+  return keyPath ? `${SERVICE_ACCOUNT_PREFIX}${resolve(expandHome(keyPath))}` : ADC_REFRESH_TOKEN;
+}
+
+function expandHome(path: string): string {
+  return path.startsWith("~/") ? join(homedir(), path.slice(2)) : path;
+}
+
+/**
+ * Locates Application Default Credentials the way the Google client libraries do:
+ * GOOGLE_APPLICATION_CREDENTIALS first, then the file written by `gcloud auth application-default login`.
+ */
+function getAdcPath(): string {
+  const explicit = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (explicit) {
+    return expandHome(explicit);
+  }
+  const configDir = process.platform === "win32"
+    ? join(process.env.APPDATA || join(homedir(), "AppData", "Roaming"), "gcloud")
+    : process.env.CLOUDSDK_CONFIG || join(homedir(), ".config", "gcloud");
+  return join(configDir, "application_default_credentials.json");
+}
+
+/**
+ * Reads the credentials behind a service-account refresh token.
+ */
+export async function loadGoogleCredentials(refreshToken: string): Promise<GoogleCredentials> {
+  const path = refreshToken === ADC_REFRESH_TOKEN ? getAdcPath() : refreshToken.slice(SERVICE_ACCOUNT_PREFIX.length);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(path, "utf-8"));
+  } catch (error) {
+    throw new GoogleCredentialsError(
+      `Cannot read Google credentials from ${path}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const credentials = raw as Partial<ServiceAccountKey> & Partial<AuthorizedUserCredentials>;
+  if (credentials.type === "service_account" && credentials.client_email && credentials.private_key) {
+    return credentials as ServiceAccountKey;
+  }
+  if (credentials.type === "authorized_user" && credentials.client_id && credentials.client_secret && credentials.refresh_token) {
+    return credentials as AuthorizedUserCredentials;
+  }
+  throw new GoogleCredentialsError(
+    `Unsupported Google credentials in ${path} (type: ${String(credentials.type)}). Use a service-account key or authorized_user ADC file.`,
+  );
+}
+
+/**
+ * Email and project that identify the credentials, taken from the key file.
+ */
+export function describeGoogleCredentials(credentials: GoogleCredentials): { email?: string; projectId?: string } {
+  if (credentials.type === "service_account") {
+    return { email: credentials.client_email, projectId: credentials.project_id };
+  }
+  return { projectId: credentials.quota_project_id };
+}
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function buildJwtAssertion(key: ServiceAccountKey, tokenUri: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = { alg: "RS256", typ: "JWT", ...(key.private_key_id ? { kid: key.private_key_id } : {}) };
+  const claims = {
+    iss: key.client_email,
+    scope: SERVICE_ACCOUNT_SCOPES.join(" "),
+    aud: tokenUri,
+    iat: now,
+    exp: now + JWT_LIFETIME_SECONDS,
+  };
+  const unsigned = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+  const signature = createSign("RSA-SHA256").update(unsigned).sign(key.private_key);
+  return `${unsigned}.${base64Url(signature)}`;
+}
+
+/**
+ * Mints an access token: a JWT bearer grant for service-account keys, a refresh grant with the
+ * file's own OAuth client for authorized_user ADC.
+ */
+export async function mintGoogleAccessToken(credentials: GoogleCredentials): Promise<{ access: string; expires: number }> {
+  const tokenUri = credentials.type === "service_account" ? credentials.token_uri || GOOGLE_TOKEN_URI : GOOGLE_TOKEN_URI;
+
+  let body: URLSearchParams;
+  try {
+    body = credentials.type === "service_account"
+      ? new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+        assertion: buildJwtAssertion(credentials, tokenUri),
+      })
+      : new URLSearchParams({
+        grant_type: "refresh_token",
+        refresh_token: credentials.refresh_token,
+        client_id: credentials.client_id,
+        client_secret: credentials.client_secret,
+      });
+  } catch (error) {
+    throw new GoogleCredentialsError(
+      `Cannot sign service-account assertion: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const response = await fetch(tokenUri, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body,
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    let code: string | undefined;
+    let description: string | undefined;
+    try {
+      const payload = JSON.parse(text) as { error?: unknown; error_description?: unknown };
+      code = typeof payload.error === "string" ? payload.error : undefined;
+      description = typeof payload.error_description === "string" ? payload.error_description : undefined;
+    } catch {
+      description = text || undefined;
+    }
+    throw new GoogleCredentialsError(
+      `Google token request failed (${response.status})${code ? `: ${code}` : ""}${description ? ` - ${description}` : ""}`,
+      code,
+    );
+  }
+
+  const payload = (await response.json()) as { access_token: string; expires_in: number };
+  return {
+    access: payload.access_token,
+    expires: Date.now() + payload.expires_in * 1000,
+  };
+}
@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it } from "bun:test";
+
+import { AccountManager } from "./accounts";
+import { clearAffinities, getAffinityAccountId, getConversationKey, recordAffinity } from "./session-affinity";
+import type { OAuthAuthDetails } from "./types";
+
+function body(...turns: Array<[string, string]>): string {
+  return JSON.stringify({
+    systemInstruction: { parts: [{ text: "be brief" }] },
+    contents: turns.map(([role, text]) => ({ role, parts: [{ text }] })),
+  });
+}
+
+describe("session affinity", () => {
+  afterEach(() => {
+    clearAffinities();
+  });
+
+  it("keeps the same conversation key as turns are appended", () => {
+    const first = getConversationKey(body(["user", "fix the bug"]));
+    const later = getConversationKey(body(["user", "fix the bug"], ["model", "done"], ["user", "thanks"]));
+    const other = getConversationKey(body(["user", "write docs"]));
+
+    expect(first).toBeDefined();
+    expect(later).toBe(first);
+    expect(other).not.toBe(first);
+  });
+
+  it("reads wrapped bodies and ignores bodies without user turns", () => {
+    const wrapped = JSON.stringify({
+      project: "p",
+      request: { sessionId: "s-1", contents: [{ role: "user", parts: [{ text: "hi" }] }] },
+    });
+
+    expect(getConversationKey(wrapped)).toStartWith("s-1:");
+    expect(getConversationKey(JSON.stringify({ contents: [] }))).toBeUndefined();
+    expect(getConversationKey("not json")).toBeUndefined();
+  });
+
+  it("forgets conversations after an hour idle", () => {
+    recordAffinity("c1", "account-a", 0);
+
+    expect(getAffinityAccountId("c1", 30 * 60 * 1000)).toBe("account-a");
+    expect(getAffinityAccountId("c1", 2 * 60 * 60 * 1000)).toBeUndefined();
+  });
+
+  it("only returns the remembered account while it can serve the request", () => {
+    const auth: OAuthAuthDetails = {
+      type: "oauth",
+      refresh: "refresh_1|project_1||refresh_2|project_2",
+      access: "",
+      expires: 0,
+    };
+    const manager = new AccountManager(auth);
+    const second = manager.getAccounts()[1]!;
+
+    expect(manager.useAccountIfAvailable(second.id, "claude")).toBe(second);
+    expect(manager.getCurrentAccount()).toBe(second);
+
+    manager.markRateLimited(second, 60_000, "claude");
+    expect(manager.useAccountIfAvailable(second.id, "claude")).toBeNull();
+    expect(manager.useAccountIfAvailable(second.id, "gemini-pro")).toBe(second);
+    expect(manager.useAccountIfAvailable(second.id, "gemini-pro", undefined, ["work"])).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { createHash } from "node:crypto";
+import { ENV_SESSION_AFFINITY } from "../constants";
+import { getSessionId } from "./request-helpers";
+
+/** Conversations idle longer than this are forgotten; the implicit cache has expired by then anyway. */
+const AFFINITY_TTL_MS = 60 * 60 * 1000;
+const MAX_CONVERSATIONS = 1000;
+
+interface Affinity {
+  accountId: string;
+  lastUsed: number;
+}
+
+// Insertion order doubles as recency: entries are re-inserted on use, so the first one is the oldest.
+const affinityByConversation = new Map<string, Affinity>();
+
+export function isSessionAffinityEnabled(): boolean {
+  return process.env[ENV_SESSION_AFFINITY] !== "0";
+}
+
+/**
+ * Identifies the conversation a request belongs to: the session ID from the request body plus a hash of
+ * the conversation's first user turn, which stays the same as later turns are appended. The plugin sends
+ * one session ID per process, so the first turn is what tells conversations within it apart.
+ * Returns undefined when the body has no contents to go by.
+ */
+export function getConversationKey(body: string | undefined): string | undefined {
+  if (!body) {
+    return undefined;
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(body) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+  const request =
+    payload.request && typeof payload.request === "object" ? (payload.request as Record<string, unknown>) : payload;
+  const contents = Array.isArray(request.contents) ? (request.contents as Array<Record<string, unknown>>) : [];
+  const firstUserTurn = contents.find((content) => content?.role === "user");
+  if (!firstUserTurn) {
+    return undefined;
+  }
+
+  const sessionId = typeof request.sessionId === "string" ? request.sessionId : getSessionId();
+  const hash = createHash("sha256")
+    .update(JSON.stringify([request.systemInstruction ?? null, firstUserTurn.parts ?? null]))
+    .digest("hex")
+    .slice(0, 16);
+  return `${sessionId}:${hash}`;
+}
+
+/**
+ * The account that last served the conversation, unless the conversation has been idle too long.
+ */
+export function getAffinityAccountId(conversationKey: string, now: number = Date.now()): string | undefined {
+  const affinity = affinityByConversation.get(conversationKey);
+  if (!affinity) {
+    return undefined;
+  }
+  if (now - affinity.lastUsed > AFFINITY_TTL_MS) {
+    affinityByConversation.delete(conversationKey);
+    return undefined;
+  }
+  return affinity.accountId;
+}
+
+export function recordAffinity(conversationKey: string, accountId: string, now: number = Date.now()): void {
+  affinityByConversation.delete(conversationKey);
+  affinityByConversation.set(conversationKey, { accountId, lastUsed: now });
+  while (affinityByConversation.size > MAX_CONVERSATIONS) {
+    const oldest = affinityByConversation.keys().next().value;
+    if (oldest === undefined) break;
+    affinityByConversation.delete(oldest);
+  }
+}
+
+export function clearAffinities(): void {
+  affinityByConversation.clear();
+}
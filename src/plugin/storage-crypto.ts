@@ -0,0 +1,150 @@
+import { exec } from "node:child_process";
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { ENV_STORAGE_KEY_COMMAND, ENV_STORAGE_KEY_FILE, ENV_STORAGE_PASSPHRASE } from "../constants";
+import type { AccountStorage } from "./storage";
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+const KEY_COMMAND_TIMEOUT_MS = 10_000;
+
+/**
+ * Stored alongside encrypted accounts so any process holding the secret can derive the same key.
+ */
+export interface StorageEncryption {
+  algorithm: "aes-256-gcm";
+  kdf: "scrypt";
+  salt: string;
+}
+
+let cachedSecret: { source: string; secret: string | null } | undefined;
+const derivedKeys = new Map<string, Buffer>();
+let processSalt: string | undefined;
+
+function runKeyCommand(command: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    exec(command, { timeout: KEY_COMMAND_TIMEOUT_MS }, (error, stdout) => {
+      if (error) {
+        reject(new Error(`${ENV_STORAGE_KEY_COMMAND} failed: ${error.message}`));
+        return;
+      }
+      resolve(stdout.trim());
+    });
+  });
+}
+
+/**
+ * Returns the storage encryption secret, or null when encryption is not configured.
+ * Sources, in order: ANTIGRAVITY_STORAGE_PASSPHRASE, ANTIGRAVITY_STORAGE_KEY_FILE and
+ * ANTIGRAVITY_STORAGE_KEY_COMMAND (e.g. `secret-tool lookup service opencode-antigravity`).
+ * The result is cached so the key command runs once per process.
+ */
+export async function resolveStorageSecret(): Promise<string | null> {
+  const passphrase = process.env[ENV_STORAGE_PASSPHRASE];
+  const keyFile = process.env[ENV_STORAGE_KEY_FILE];
+  const keyCommand = process.env[ENV_STORAGE_KEY_COMMAND];
+  const source = JSON.stringify([passphrase ?? null, keyFile ?? null, keyCommand ?? null]);
+  if (cachedSecret?.source === source) {
+    return cachedSecret.secret;
+  }
+
+  let secret: string | null = null;
+  if (passphrase) {
+    secret = passphrase;
+  } else if (keyFile) {
+    const path = keyFile.startsWith("~/") ? join(homedir(), keyFile.slice(2)) : keyFile;
+    secret = (await fs.readFile(path, "utf-8")).trim();
+  } else if (keyCommand) {
+    secret = await runKeyCommand(keyCommand);
+  }
+
+  if (secret === "") {
+    throw new Error("Account storage encryption key is empty");
+  }
+
+  cachedSecret = { source, secret };
+  return secret;
+}
+
+function deriveKey(secret: string, salt: string): Promise<Buffer> {
+  const cacheKey = `${salt}:${secret}`;
+  const cached = derivedKeys.get(cacheKey);
+  if (cached) {
+    return Promise.resolve(cached);
+  }
+
+  return new Promise((resolve, reject) => {
+    scrypt(secret, Buffer.from(salt, "base64"), 32, (error, key) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      derivedKeys.set(cacheKey, key);
+      resolve(key);
+    });
+  });
+}
+
+export function isEncryptedValue(value: string | undefined): boolean {
+  return typeof value === "string" && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+function encryptValue(key: Buffer, value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, "utf-8"), cipher.final()]);
+  return `${ENCRYPTED_PREFIX}${iv.toString("base64")}:${cipher.getAuthTag().toString("base64")}:${ciphertext.toString("base64")}`;
+}
+
+function decryptValue(key: Buffer, value: string): string {
+  const [iv, tag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(":");
+  if (!iv || !tag || ciphertext === undefined) {
+    throw new Error("Malformed encrypted value in account storage");
+  }
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf-8");
+  } catch {
+    throw new Error("Cannot decrypt account storage: wrong encryption key");
+  }
+}
+
+/**
+ * Returns a copy of the storage with every refresh token encrypted. Reuses the salt already recorded
+ * in the storage so repeated saves do not re-run the key derivation.
+ */
+export async function encryptAccountStorage(storage: AccountStorage, secret: string): Promise<AccountStorage> {
+  processSalt ??= randomBytes(16).toString("base64");
+  const salt = storage.encryption?.salt ?? processSalt;
+  const key = await deriveKey(secret, salt);
+
+  return {
+    ...storage,
+    encryption: { algorithm: "aes-256-gcm", kdf: "scrypt", salt },
+    accounts: storage.accounts.map((account) => ({
+      ...account,
+      refreshToken: isEncryptedValue(account.refreshToken) ? account.refreshToken : encryptValue(key, account.refreshToken),
+    })),
+  };
+}
+
+/**
+ * Returns a copy of the storage with refresh tokens decrypted. Plaintext tokens pass through unchanged.
+ * Throws when the secret does not match.
+ */
+export async function decryptAccountStorage(storage: AccountStorage, secret: string): Promise<AccountStorage> {
+  if (!storage.encryption) {
+    throw new Error("Account storage has encrypted tokens but no encryption header");
+  }
+  const key = await deriveKey(secret, storage.encryption.salt);
+
+  return {
+    ...storage,
+    accounts: storage.accounts.map((account) => ({
+      ...account,
+      refreshToken: isEncryptedValue(account.refreshToken) ? decryptValue(key, account.refreshToken) : account.refreshToken,
+    })),
+  };
+}
@@ -1,18 +1,40 @@
-import { describe, it, expect, mock, beforeEach } from "bun:test";
+import { describe, it, expect, mock, spyOn, beforeEach, afterEach } from "bun:test";
 import { join } from "node:path";
 import { promises as fs } from "node:fs";
-import { loadAccounts, saveAccounts, getStoragePath, type AccountStorageV1, type AccountStorageV2, type AccountStorage } from "./storage";
+import { createAccountId, EncryptedStorageError, loadAccounts, mergeAccountStorage, saveAccounts, getStoragePath, type AccountStorageV1, type AccountStorageV2, type AccountStorageV3, type AccountStorage } from "./storage";
+import { AccountManager } from "./accounts";
+import { encryptAccountStorage } from "./storage-crypto";
+
+// What the last lock taken wrote to its file; releasing the lock reads it back to check ownership.
+let lockContent: string | null = null;
 
 // Mock filesystem
 const mockFs = {
   readFile: mock(async (path: any): Promise<string> => { throw new Error("ENOENT"); }),
-  writeFile: mock(async (path: any, data: any): Promise<void> => {}),
+  writeFile: mock(async (path: any, data: any, options?: any): Promise<void> => {}),
   mkdir: mock(async (path: any, options: any): Promise<void> => {}),
+  chmod: mock(async (path: any, mode: any): Promise<void> => {}),
+  rename: mock(async (from: any, to: any): Promise<void> => {}),
+  unlink: mock(async (path: any): Promise<void> => {}),
+  stat: mock(async (path: any): Promise<any> => {
+    throw Object.assign(new Error("ENOENT"), { code: "ENOENT" });
+  }),
+  link: mock(async (existing: any, path: any): Promise<void> => {}),
+  open: mock(async (path: any, flags: any, mode?: any) => ({
+    writeFile: async (data: any, options?: any): Promise<void> => {
+      lockContent = String(data);
+    },
+    close: async (): Promise<void> => {},
+  })),
 };
 
 // Mock the fs module
 mock.module("node:fs", () => ({
-  promises: mockFs,
+  promises: {
+    ...mockFs,
+    // A lock being released is renamed to a `.stale` path before its content is checked.
+    readFile: (path: any) => (String(path).endsWith(".stale") ? Promise.resolve(lockContent) : mockFs.readFile(path)),
+  },
 }));
 
 // Mock logger to avoid console spam
@@ -30,9 +52,11 @@ describe("storage migration", () => {
     mockFs.readFile.mockReset();
     mockFs.writeFile.mockReset();
     mockFs.mkdir.mockReset();
+    mockFs.chmod.mockReset();
+    mockFs.rename.mockReset();
   });
 
-  it("should migrate v1 storage to v3", async () => {
+  it("should migrate v1 storage to v4", async () => {
     const now = Date.now();
     const futureTime = now + 60000;
 
@@ -65,18 +89,18 @@ describe("storage migration", () => {
     const storage = await loadAccounts();
 
     expect(storage).not.toBeNull();
-    expect(storage?.version).toBe(3);
+    expect(storage?.version).toBe(4);
     expect(storage?.accounts[0]?.rateLimitResetTimes).toEqual({
-      claude: futureTime,
-      "gemini-flash": futureTime,
-      "gemini-pro": futureTime,
+      "family:claude": futureTime,
+      "family:gemini-flash": futureTime,
+      "family:gemini-pro": futureTime,
     });
     expect(storage?.accounts[1]?.rateLimitResetTimes).toBeUndefined();
 
     // Verify it saved the migrated data
     expect(mockFs.writeFile).toHaveBeenCalled();
     const savedContent = JSON.parse(mockFs.writeFile.mock.calls[0]?.[1] as string);
-    expect(savedContent.version).toBe(3);
+    expect(savedContent.version).toBe(4);
   });
 
   it("should preserve expired rate limits during v1 migration", async () => {
@@ -101,15 +125,15 @@ describe("storage migration", () => {
     const storage = await loadAccounts();
 
     expect(storage).not.toBeNull();
-    expect(storage?.version).toBe(3);
+    expect(storage?.version).toBe(4);
     expect(storage?.accounts[0]?.rateLimitResetTimes).toEqual({
-      claude: pastTime,
-      "gemini-flash": pastTime,
-      "gemini-pro": pastTime,
+      "family:claude": pastTime,
+      "family:gemini-flash": pastTime,
+      "family:gemini-pro": pastTime,
     });
   });
 
-  it("should migrate v2 storage to v3", async () => {
+  it("should migrate v2 storage to v4", async () => {
     const futureTime = Date.now() + 60000;
     const v2Data: AccountStorageV2 = {
       version: 2,
@@ -134,18 +158,18 @@ describe("storage migration", () => {
     const storage = await loadAccounts();
 
     expect(storage).not.toBeNull();
-    expect(storage?.version).toBe(3);
+    expect(storage?.version).toBe(4);
     expect(storage?.accounts[0]?.rateLimitResetTimes).toEqual({
-      claude: futureTime,
-      "gemini-flash": futureTime,
-      "gemini-pro": futureTime,
+      "family:claude": futureTime,
+      "family:gemini-flash": futureTime,
+      "family:gemini-pro": futureTime,
     });
     expect(storage?.accounts[1]?.rateLimitResetTimes).toBeUndefined();
 
     // Verify it saved the migrated data
     expect(mockFs.writeFile).toHaveBeenCalled();
     const savedContent = JSON.parse(mockFs.writeFile.mock.calls[0]?.[1] as string);
-    expect(savedContent.version).toBe(3);
+    expect(savedContent.version).toBe(4);
   });
 
   it("should preserve expired rate limits during v2 migration", async () => {
@@ -168,21 +192,22 @@ describe("storage migration", () => {
     const storage = await loadAccounts();
 
     expect(storage).not.toBeNull();
-    expect(storage?.version).toBe(3);
+    expect(storage?.version).toBe(4);
     expect(storage?.accounts[0]?.rateLimitResetTimes).toEqual({
-      "gemini-flash": pastTime,
-      "gemini-pro": pastTime,
+      "family:gemini-flash": pastTime,
+      "family:gemini-pro": pastTime,
     });
   });
 
-  it("should load v3 storage directly", async () => {
+  it("should migrate v3 family rate limits to v4 family keys", async () => {
     const futureTime = Date.now() + 60000;
-    const v3Data: AccountStorage = {
+    const v3Data: AccountStorageV3 = {
       version: 3,
       activeIndex: 1,
       accounts: [
         {
           refreshToken: "token1",
+          tier: "paid",
           addedAt: Date.now(),
           lastUsed: Date.now(),
           rateLimitResetTimes: { claude: futureTime, "gemini-flash": futureTime },
@@ -199,17 +224,77 @@ describe("storage migration", () => {
 
     const storage = await loadAccounts();
 
-    expect(storage).toEqual(v3Data);
+    expect(storage).not.toBeNull();
+    expect(storage?.version).toBe(4);
+    expect(storage?.activeIndex).toBe(1);
+    expect(storage?.accounts[0]?.rateLimitResetTimes).toEqual({
+      "family:claude": futureTime,
+      "family:gemini-flash": futureTime,
+    });
+    expect(storage?.accounts[0]?.tier).toBe("paid");
+    expect(storage?.accounts[1]?.rateLimitResetTimes).toBeUndefined();
+
+    // Verify it saved the migrated data
+    expect(mockFs.writeFile).toHaveBeenCalled();
+    const savedContent = JSON.parse(mockFs.writeFile.mock.calls[0]?.[1] as string);
+    expect(savedContent.version).toBe(4);
+  });
+
+  it("should return migrated storage even when writing it fails", async () => {
+    const v3Data: AccountStorageV3 = {
+      version: 3,
+      activeIndex: 0,
+      accounts: [{ email: "test@example.com", refreshToken: "token1", addedAt: 1, lastUsed: 1 }],
+    };
+    mockFs.readFile.mockImplementation(async () => JSON.stringify(v3Data));
+    mockFs.writeFile.mockImplementation(async () => {
+      throw Object.assign(new Error("EACCES"), { code: "EACCES" });
+    });
+
+    const storage = await loadAccounts();
+
+    expect(storage?.version).toBe(4);
+    expect(storage?.accounts.map((a) => a.refreshToken)).toEqual(["token1"]);
+  });
+
+  it("should load v4 storage directly", async () => {
+    const futureTime = Date.now() + 60000;
+    const v4Data: AccountStorage = {
+      version: 4,
+      activeIndex: 1,
+      accounts: [
+        {
+          id: "a1",
+          refreshToken: "token1",
+          addedAt: Date.now(),
+          lastUsed: Date.now(),
+          rateLimitResetTimes: { "claude-opus-4-5-thinking": futureTime, "gemini-3-pro-image": futureTime },
+        },
+        {
+          id: "a2",
+          refreshToken: "token2",
+          addedAt: Date.now(),
+          lastUsed: Date.now(),
+        },
+      ],
+    };
+
+    mockFs.readFile.mockImplementation(async () => JSON.stringify(v4Data));
+
+    const storage = await loadAccounts();
+
+    expect(storage).toEqual(v4Data);
     expect(mockFs.writeFile).not.toHaveBeenCalled();
   });
 
-  it("should preserve tier field in v3 storage", async () => {
+  it("should preserve tier field in v4 storage", async () => {
     const now = Date.now();
-    const v3Data: AccountStorage = {
-      version: 3,
+    const v4Data: AccountStorage = {
+      version: 4,
       activeIndex: 0,
       accounts: [
         {
+          id: "a1",
           email: "paid@example.com",
           tier: "paid",
           refreshToken: "token1",
@@ -217,6 +302,7 @@ describe("storage migration", () => {
           lastUsed: now,
         },
         {
+          id: "a2",
           email: "free@example.com",
           tier: "free",
           refreshToken: "token2",
@@ -224,6 +310,7 @@ describe("storage migration", () => {
           lastUsed: now,
         },
         {
+          id: "a3",
           email: "unknown@example.com",
           refreshToken: "token3",
           addedAt: now,
@@ -232,7 +319,7 @@ describe("storage migration", () => {
       ],
     };
 
-    mockFs.readFile.mockImplementation(async () => JSON.stringify(v3Data));
+    mockFs.readFile.mockImplementation(async () => JSON.stringify(v4Data));
 
     const storage = await loadAccounts();
 
@@ -243,6 +330,26 @@ describe("storage migration", () => {
     expect(mockFs.writeFile).not.toHaveBeenCalled();
   });
 
+  it("assigns stable IDs to accounts stored without one", async () => {
+    const v4Data: AccountStorage = {
+      version: 4,
+      activeIndex: 0,
+      accounts: [
+        { id: "kept", refreshToken: "token1", addedAt: 1, lastUsed: 0 },
+        { refreshToken: "token2", addedAt: 1, lastUsed: 0 },
+      ],
+    };
+
+    mockFs.readFile.mockImplementation(async () => JSON.stringify(v4Data));
+
+    const storage = await loadAccounts();
+
+    expect(storage?.accounts[0]?.id).toBe("kept");
+    expect(storage?.accounts[1]?.id).toBe(createAccountId("token2"));
+    const written = JSON.parse(mockFs.writeFile.mock.calls[0]![1]);
+    expect(written.accounts.map((account: { id: string }) => account.id)).toEqual(["kept", createAccountId("token2")]);
+  });
+
   it("should handle missing file (ENOENT)", async () => {
     mockFs.readFile.mockImplementation(async () => {
       const error: any = new Error("ENOENT");
@@ -286,3 +393,283 @@ describe("storage migration", () => {
     expect(storage).toBeNull();
   });
 });
+
+describe("storage encryption", () => {
+  const v4Data: AccountStorage = {
+    version: 4,
+    activeIndex: 0,
+    accounts: [
+      { email: "a@example.com", refreshToken: "token1", addedAt: 1, lastUsed: 1 },
+      { email: "b@example.com", refreshToken: "token2", addedAt: 2, lastUsed: 2 },
+    ],
+  };
+
+  beforeEach(() => {
+    mockFs.readFile.mockReset();
+    mockFs.writeFile.mockReset();
+    mockFs.mkdir.mockReset();
+    mockFs.chmod.mockReset();
+    mockFs.rename.mockReset();
+  });
+
+  afterEach(() => {
+    delete process.env.ANTIGRAVITY_STORAGE_PASSPHRASE;
+  });
+
+  it("should write the file atomically with owner-only permissions", async () => {
+    await saveAccounts(v4Data);
+
+    const tempPath = mockFs.writeFile.mock.calls[0]?.[0] as string;
+    expect(tempPath).not.toBe(getStoragePath());
+    expect(mockFs.writeFile.mock.calls[0]?.[2]).toEqual({ encoding: "utf-8", mode: 0o600 });
+    expect(mockFs.rename.mock.calls[0]).toEqual([tempPath, getStoragePath()]);
+    expect(mockFs.open.mock.calls.at(-1)?.[0]).toBe(`${getStoragePath()}.lock`);
+    const saved = JSON.parse(mockFs.writeFile.mock.calls[0]?.[1] as string);
+    expect(saved.accounts[0].refreshToken).toBe("token1");
+    expect(saved.encryption).toBeUndefined();
+  });
+
+  it("should encrypt plaintext v4 storage in place and read it back", async () => {
+    process.env.ANTIGRAVITY_STORAGE_PASSPHRASE = "correct horse";
+    mockFs.readFile.mockImplementation(async () => JSON.stringify(v4Data));
+
+    const storage = await loadAccounts();
+    expect(storage?.accounts.map((a) => a.refreshToken)).toEqual(["token1", "token2"]);
+
+    expect(mockFs.writeFile).toHaveBeenCalledTimes(1);
+    const written = mockFs.writeFile.mock.calls[0]?.[1] as string;
+    expect(written).not.toContain("token1");
+    const saved = JSON.parse(written) as AccountStorage;
+    expect(saved.encryption?.algorithm).toBe("aes-256-gcm");
+    expect(saved.accounts[0]?.refreshToken.startsWith("enc:v1:")).toBe(true);
+    expect(saved.accounts[0]?.email).toBe("a@example.com");
+
+    mockFs.writeFile.mockReset();
+    mockFs.readFile.mockImplementation(async () => written);
+    const reloaded = await loadAccounts();
+    expect(reloaded?.accounts.map((a) => a.refreshToken)).toEqual(["token1", "token2"]);
+    expect(mockFs.writeFile).not.toHaveBeenCalled();
+  });
+
+  it("should keep the file's salt when another process saves", async () => {
+    process.env.ANTIGRAVITY_STORAGE_PASSPHRASE = "correct horse";
+    const salt = Buffer.from("salt-from-disk!!").toString("base64");
+    const onDisk = await encryptAccountStorage(
+      { ...v4Data, encryption: { algorithm: "aes-256-gcm", kdf: "scrypt", salt } },
+      "correct horse",
+    );
+    mockFs.readFile.mockImplementation(async () => JSON.stringify(onDisk));
+
+    await saveAccounts({ ...v4Data, accounts: [{ ...v4Data.accounts[0]!, lastUsed: 3 }] });
+
+    const saved = JSON.parse(mockFs.writeFile.mock.calls[0]?.[1] as string) as AccountStorage;
+    expect(saved.encryption?.salt).toBe(salt);
+  });
+
+  it("should refuse encrypted storage without the right key", async () => {
+    process.env.ANTIGRAVITY_STORAGE_PASSPHRASE = "correct horse";
+    await saveAccounts(v4Data);
+    const written = mockFs.writeFile.mock.calls[0]?.[1] as string;
+    mockFs.readFile.mockImplementation(async () => written);
+
+    process.env.ANTIGRAVITY_STORAGE_PASSPHRASE = "wrong";
+    expect(await loadAccounts()).toBeNull();
+
+    delete process.env.ANTIGRAVITY_STORAGE_PASSPHRASE;
+    expect(await loadAccounts()).toBeNull();
+  });
+
+  it("should refuse to overwrite encrypted storage it cannot decrypt", async () => {
+    process.env.ANTIGRAVITY_STORAGE_PASSPHRASE = "correct horse";
+    await saveAccounts(v4Data);
+    const written = mockFs.writeFile.mock.calls[0]?.[1] as string;
+    mockFs.readFile.mockImplementation(async () => written);
+    mockFs.writeFile.mockReset();
+
+    const pool: AccountStorage = { ...v4Data, accounts: [v4Data.accounts[0]!] };
+    process.env.ANTIGRAVITY_STORAGE_PASSPHRASE = "wrong";
+    await expect(saveAccounts(pool)).rejects.toBeInstanceOf(EncryptedStorageError);
+
+    delete process.env.ANTIGRAVITY_STORAGE_PASSPHRASE;
+    await expect(saveAccounts(pool, { replaceAccounts: true })).rejects.toBeInstanceOf(EncryptedStorageError);
+    expect(mockFs.writeFile).not.toHaveBeenCalled();
+  });
+});
+
+describe("storage merge on write", () => {
+  const now = Date.now();
+  const base = (overrides: Partial<AccountStorage["accounts"][number]>) => ({
+    email: "a@example.com",
+    refreshToken: "token-a",
+    addedAt: 1,
+    lastUsed: 1,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockFs.readFile.mockReset();
+    mockFs.writeFile.mockReset();
+    mockFs.rename.mockReset();
+  });
+
+  it("should match accounts by ID after the refresh token rotated", () => {
+    const onDisk: AccountStorage = {
+      version: 4,
+      activeIndex: 0,
+      accounts: [base({ id: "a", email: undefined, refreshToken: "token-a2", refreshTokenUpdatedAt: now })],
+    };
+    const saving: AccountStorage = {
+      version: 4,
+      activeIndex: 0,
+      accounts: [base({ id: "a", email: undefined, disabled: true })],
+    };
+
+    const merged = mergeAccountStorage(onDisk, saving);
+
+    expect(merged.accounts).toHaveLength(1);
+    expect(merged.accounts[0]?.refreshToken).toBe("token-a2");
+    expect(merged.accounts[0]?.disabled).toBe(true);
+  });
+
+  it("should keep the later rate limit, the newer token and the union of accounts", () => {
+    const onDisk: AccountStorage = {
+      version: 4,
+      activeIndex: 0,
+      accounts: [
+        base({ refreshToken: "token-a2", refreshTokenUpdatedAt: now, rateLimitResetTimes: { "gemini-3-pro-high": now + 90_000 } }),
+        base({ email: "c@example.com", refreshToken: "token-c" }),
+      ],
+    };
+    const saving: AccountStorage = {
+      version: 4,
+      activeIndex: 1,
+      accounts: [
+        base({ email: "b@example.com", refreshToken: "token-b" }),
+        base({
+          lastUsed: now,
+          disabled: true,
+          rateLimitResetTimes: { "gemini-3-pro-high": now + 30_000, "claude-sonnet-4-5": now + 60_000 },
+        }),
+      ],
+    };
+
+    const merged = mergeAccountStorage(onDisk, saving);
+
+    expect(merged.accounts.map((a) => a.email)).toEqual(["b@example.com", "a@example.com", "c@example.com"]);
+    expect(merged.activeIndex).toBe(1);
+    expect(merged.accounts[1]).toMatchObject({
+      refreshToken: "token-a2",
+      lastUsed: now,
+      disabled: true,
+      rateLimitResetTimes: { "gemini-3-pro-high": now + 90_000, "claude-sonnet-4-5": now + 60_000 },
+    });
+  });
+
+  it("should drop accounts missing from an authoritative save", () => {
+    const onDisk: AccountStorage = { version: 4, activeIndex: 0, accounts: [base({}), base({ email: "c@example.com", refreshToken: "token-c" })] };
+    const saving: AccountStorage = { version: 4, activeIndex: 0, accounts: [base({})] };
+
+    expect(mergeAccountStorage(onDisk, saving, { replaceAccounts: true }).accounts).toHaveLength(1);
+  });
+
+  it("should merge with what another process wrote before saving", async () => {
+    const onDisk: AccountStorage = {
+      version: 4,
+      activeIndex: 0,
+      accounts: [base({ rateLimitResetTimes: { "claude-opus-4-5-thinking": now + 60_000 } })],
+    };
+    mockFs.readFile.mockImplementation(async () => JSON.stringify(onDisk));
+
+    await saveAccounts({ version: 4, activeIndex: 0, accounts: [base({ lastUsed: now })] });
+
+    const saved = JSON.parse(mockFs.writeFile.mock.calls[0]?.[1] as string) as AccountStorage;
+    expect(saved.accounts[0]?.rateLimitResetTimes).toEqual({ "claude-opus-4-5-thinking": now + 60_000 });
+    expect(saved.accounts[0]?.lastUsed).toBe(now);
+  });
+
+  it("should not merge a removed account back in from a process that still holds it", async () => {
+    const onDisk: AccountStorage = {
+      version: 4,
+      activeIndex: 0,
+      accounts: [
+        base({ id: "account-a" }),
+        base({ id: "account-c", email: "c@example.com", refreshToken: "token-c" }),
+      ],
+    };
+    mockFs.readFile.mockImplementation(async () => JSON.stringify(onDisk));
+    const stale = new AccountManager(null, onDisk);
+
+    const remover = new AccountManager(null, onDisk);
+    remover.removeAccount(1);
+    await remover.save();
+    const afterRemoval = mockFs.writeFile.mock.calls[0]?.[1] as string;
+    mockFs.readFile.mockImplementation(async () => afterRemoval);
+
+    await stale.save();
+
+    const saved = JSON.parse(mockFs.writeFile.mock.calls[1]?.[1] as string) as AccountStorage;
+    expect(saved.accounts.map((a) => a.id)).toEqual(["account-a"]);
+    expect(Object.keys(saved.removedAccounts ?? {})).toEqual(["account-c"]);
+
+    // Adding the account again later is not undone by the removal.
+    mockFs.readFile.mockImplementation(async () => JSON.stringify(saved));
+    const readded = base({ id: "account-c", email: "c@example.com", refreshToken: "token-c", addedAt: Date.now() + 1 });
+    await saveAccounts({ ...saved, removedAccounts: undefined, accounts: [...saved.accounts, readded] });
+    const final = JSON.parse(mockFs.writeFile.mock.calls[2]?.[1] as string) as AccountStorage;
+    expect(final.accounts.map((a) => a.id)).toEqual(["account-a", "account-c"]);
+  });
+
+  it("should keep an account removed and added again within the same millisecond", async () => {
+    const onDisk: AccountStorage = {
+      version: 4,
+      activeIndex: 0,
+      accounts: [
+        base({ id: "account-a" }),
+        base({ id: "account-c", email: "c@example.com", refreshToken: "token-c" }),
+        base({ id: createAccountId("token-d"), email: "d@example.com", refreshToken: "token-d" }),
+      ],
+    };
+    mockFs.readFile.mockImplementation(async () => JSON.stringify(onDisk));
+    const dateNow = spyOn(Date, "now").mockReturnValue(now);
+    try {
+      const manager = new AccountManager(null, onDisk);
+      manager.removeAccount(2);
+      manager.removeAccount(1);
+      // A new login to the same email, and the same refresh token added back.
+      manager.addAccount({ refreshToken: "token-c2" }, undefined, undefined, "c@example.com");
+      manager.addAccount({ refreshToken: "token-d" }, undefined, undefined, "d@example.com");
+      await manager.save();
+    } finally {
+      dateNow.mockRestore();
+    }
+
+    const saved = JSON.parse(mockFs.writeFile.mock.calls[0]?.[1] as string) as AccountStorage;
+    expect(saved.accounts.map((a) => a.refreshToken)).toEqual(["token-a", "token-c2", "token-d"]);
+    expect(saved.accounts[1]?.id).toBe(createAccountId("token-c2"));
+  });
+
+  it("should keep the new login when replacing the pool with the same account", async () => {
+    const onDisk: AccountStorage = {
+      version: 4,
+      activeIndex: 0,
+      accounts: [base({ id: "account-a" }), base({ id: "account-c", email: "c@example.com", refreshToken: "token-c" })],
+    };
+    mockFs.readFile.mockImplementation(async () => JSON.stringify(onDisk));
+    mockFs.writeFile.mockImplementation(async (_path, data) => {
+      mockFs.readFile.mockImplementation(async () => data as string);
+    });
+    const dateNow = spyOn(Date, "now").mockReturnValue(now);
+    try {
+      const manager = new AccountManager(null, onDisk);
+      manager.removeAccount(1);
+      manager.removeAccount(0);
+      manager.addAccount({ refreshToken: "token-a2" }, undefined, undefined, "a@example.com");
+      await manager.save({ replaceAccounts: true });
+    } finally {
+      dateNow.mockRestore();
+    }
+
+    const loaded = await loadAccounts();
+    expect(loaded?.accounts.map((a) => a.refreshToken)).toEqual(["token-a2"]);
+  });
+});
@@ -1,18 +1,30 @@
+import { createHash } from "node:crypto";
 import { promises as fs } from "node:fs";
-import { join, dirname } from "node:path";
+import { join } from "node:path";
 import { homedir } from "node:os";
 import { createLogger } from "./logger";
+import { withFileLock, writeFileAtomic } from "./file-lock";
+import {
+  decryptAccountStorage,
+  encryptAccountStorage,
+  isEncryptedValue,
+  resolveStorageSecret,
+  type StorageEncryption,
+} from "./storage-crypto";
 
 const log = createLogger("storage");
 
+/** How long removals are remembered; processes started before then have long reloaded the file. */
+const REMOVED_ACCOUNT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
 export type ModelFamily = "claude" | "gemini-flash" | "gemini-pro";
 export type AccountTier = "free" | "paid";
 
-export interface RateLimitState {
-  claude?: number;
-  "gemini-flash"?: number;
-  "gemini-pro"?: number;
-}
+/**
+ * Reset time per rate-limit key: a resolved backend model (`claude-opus-4-5-thinking`) or a configured
+ * quota group. `family:<family>` keys come from v3 storage and block every model of that family until they expire.
+ */
+export type RateLimitState = Record<string, number>;
 
 // V1: Original format with single isRateLimited flag
 export interface AccountMetadataV1 {
@@ -57,7 +69,37 @@ export interface AccountStorageV2 {
 }
 
 // V3: Split gemini into gemini-flash and gemini-pro, added tier
+export interface RateLimitStateV3 {
+  claude?: number;
+  "gemini-flash"?: number;
+  "gemini-pro"?: number;
+}
+
+export interface AccountMetadataV3 {
+  email?: string;
+  tier?: AccountTier;
+  refreshToken: string;
+  projectId?: string;
+  managedProjectId?: string;
+  addedAt: number;
+  lastUsed: number;
+  lastSwitchReason?: "rate-limit" | "initial" | "rotation";
+  rateLimitResetTimes?: RateLimitStateV3;
+}
+
+export interface AccountStorageV3 {
+  version: 3;
+  accounts: AccountMetadataV3[];
+  activeIndex: number;
+}
+
+// V4: Rate limits keyed by backend model or quota group instead of model family
 export interface AccountMetadata {
+  /**
+   * Stable identifier that survives reordering, removals and refresh token rotation. Files written before
+   * it existed get one on load (see createAccountId).
+   */
+  id?: string;
   email?: string;
   tier?: AccountTier;
   refreshToken: string;
@@ -65,17 +107,45 @@ export interface AccountMetadata {
   managedProjectId?: string;
   addedAt: number;
   lastUsed: number;
+  disabled?: boolean;
+  needsReauth?: boolean;
   lastSwitchReason?: "rate-limit" | "initial" | "rotation";
   rateLimitResetTimes?: RateLimitState;
+  /** Requested model name → whether this account can use it, learned from errors, successes or a login probe. */
+  modelCapabilities?: Record<string, boolean>;
+  /** When `refreshToken` last changed; concurrent saves keep the newer token. Falls back to `addedAt`. */
+  refreshTokenUpdatedAt?: number;
+  /** Labels such as "work" or "personal"; ANTIGRAVITY_WORKSPACE_GROUPS restricts workspaces to them. */
+  groups?: string[];
 }
 
 export interface AccountStorage {
-  version: 3;
+  version: 4;
   accounts: AccountMetadata[];
   activeIndex: number;
+  /** ID of the active account; preferred over `activeIndex`, which is kept for older versions of the plugin. */
+  activeAccountId?: string;
+  /**
+   * Account ID → when it was removed. Saves drop a matching account added before then, so a process that
+   * still holds a removed account cannot merge it back in.
+   */
+  removedAccounts?: Record<string, number>;
+  /** Present when refresh tokens are encrypted at rest; see storage-crypto.ts. */
+  encryption?: StorageEncryption;
 }
 
-type AnyAccountStorage = AccountStorageV1 | AccountStorageV2 | AccountStorage;
+type AnyAccountStorage = AccountStorageV1 | AccountStorageV2 | AccountStorageV3 | AccountStorage;
+
+/**
+ * The account file is encrypted and cannot be decrypted: no key is configured or the key is wrong.
+ * Loading treats the file as unusable; saving refuses to replace it.
+ */
+export class EncryptedStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EncryptedStorageError";
+  }
+}
 
 function getDataDir(): string {
   const platform = process.platform;
@@ -92,6 +162,18 @@ export function getStoragePath(): string {
   return join(getDataDir(), "antigravity-accounts.json");
 }
 
+/**
+ * ID for an account that does not have one yet, derived from its refresh token at that moment so that
+ * processes migrating the same file concurrently agree. It is stored and kept when the token rotates.
+ */
+export function createAccountId(refreshToken: string): string {
+  return createHash("sha256").update(refreshToken).digest("hex").slice(0, 12);
+}
+
+function withAccountIds(accounts: AccountMetadata[]): AccountMetadata[] {
+  return accounts.map((account) => (account.id ? account : { ...account, id: createAccountId(account.refreshToken) }));
+}
+
 function migrateV1ToV2(v1: AccountStorageV1): AccountStorageV2 {
   return {
     version: 2,
@@ -116,11 +198,11 @@ function migrateV1ToV2(v1: AccountStorageV1): AccountStorageV2 {
   };
 }
 
-function migrateV2ToV3(v2: AccountStorageV2): AccountStorage {
+function migrateV2ToV3(v2: AccountStorageV2): AccountStorageV3 {
   return {
     version: 3,
     accounts: v2.accounts.map((acc) => {
-      const rateLimitResetTimes: RateLimitState = {};
+      const rateLimitResetTimes: RateLimitStateV3 = {};
       if (acc.rateLimitResetTimes) {
         if (acc.rateLimitResetTimes.claude !== undefined) {
           rateLimitResetTimes.claude = acc.rateLimitResetTimes.claude;
@@ -145,33 +227,103 @@ function migrateV2ToV3(v2: AccountStorageV2): AccountStorage {
   };
 }
 
+function migrateV3ToV4(v3: AccountStorageV3): AccountStorage {
+  return {
+    ...v3,
+    version: 4,
+    accounts: v3.accounts.map((acc) => {
+      const rateLimitResetTimes: RateLimitState = {};
+      for (const [family, resetTime] of Object.entries(acc.rateLimitResetTimes ?? {})) {
+        if (typeof resetTime === "number") {
+          rateLimitResetTimes[`family:${family}`] = resetTime;
+        }
+      }
+      return {
+        ...acc,
+        rateLimitResetTimes: Object.keys(rateLimitResetTimes).length > 0 ? rateLimitResetTimes : undefined,
+      };
+    }),
+  };
+}
+
+/**
+ * Reads, migrates and decrypts the account file. `needsSave` is set when the file on disk should be
+ * rewritten (older version, or plaintext while a key is configured). Returns null when there is nothing usable.
+ * Throws EncryptedStorageError when the file is encrypted and the configured key cannot decrypt it.
+ */
+async function readAccountStorage(): Promise<{ storage: AccountStorage; needsSave: boolean } | null> {
+  const path = getStoragePath();
+  const content = await fs.readFile(path, "utf-8");
+  const data = JSON.parse(content) as AnyAccountStorage;
+
+  if (!Array.isArray(data.accounts)) {
+    log.warn("Invalid storage format, ignoring");
+    return null;
+  }
+
+  let storage: AccountStorage;
+  let needsSave = false;
+
+  if (data.version === 1) {
+    log.info("Migrating account storage from v1 to v4");
+    storage = migrateV3ToV4(migrateV2ToV3(migrateV1ToV2(data)));
+    needsSave = true;
+  } else if (data.version === 2) {
+    log.info("Migrating account storage from v2 to v4");
+    storage = migrateV3ToV4(migrateV2ToV3(data));
+    needsSave = true;
+  } else if (data.version === 3) {
+    log.info("Migrating account storage from v3 to v4");
+    storage = migrateV3ToV4(data);
+    needsSave = true;
+  } else if (data.version === 4) {
+    storage = data;
+  } else {
+    log.warn("Unknown storage version, ignoring", { version: (data as { version?: unknown }).version });
+    return null;
+  }
+
+  const secret = await resolveStorageSecret();
+  const hasPlaintext = storage.accounts.some((account) => !isEncryptedValue(account.refreshToken));
+  if (storage.accounts.some((account) => isEncryptedValue(account.refreshToken))) {
+    if (!secret) {
+      throw new EncryptedStorageError(
+        `Account storage at ${path} is encrypted but no key is configured. Set ANTIGRAVITY_STORAGE_PASSPHRASE, ` +
+          "ANTIGRAVITY_STORAGE_KEY_FILE or ANTIGRAVITY_STORAGE_KEY_COMMAND.",
+      );
+    }
+    try {
+      storage = await decryptAccountStorage(storage, secret);
+    } catch (error) {
+      throw new EncryptedStorageError(error instanceof Error ? error.message : String(error));
+    }
+  }
+  if (secret && hasPlaintext && !needsSave) {
+    log.info("Encrypting account storage in place");
+    needsSave = true;
+  }
+  if (storage.accounts.some((account) => !account.id)) {
+    log.info("Assigning account IDs");
+    storage = { ...storage, accounts: withAccountIds(storage.accounts) };
+    needsSave = true;
+  }
+
+  return { storage, needsSave };
+}
+
 export async function loadAccounts(): Promise<AccountStorage | null> {
   try {
-    const path = getStoragePath();
-    const content = await fs.readFile(path, "utf-8");
-    const data = JSON.parse(content) as AnyAccountStorage;
-
-    if (!Array.isArray(data.accounts)) {
-      log.warn("Invalid storage format, ignoring");
+    const result = await readAccountStorage();
+    if (!result) {
       return null;
     }
+    const { storage, needsSave } = result;
 
-    let storage: AccountStorage;
-
-    if (data.version === 1) {
-      log.info("Migrating account storage from v1 to v3");
-      const v2 = migrateV1ToV2(data);
-      storage = migrateV2ToV3(v2);
-      await saveAccounts(storage);
-    } else if (data.version === 2) {
-      log.info("Migrating account storage from v2 to v3");
-      storage = migrateV2ToV3(data);
-      await saveAccounts(storage);
-    } else if (data.version === 3) {
-      storage = data;
-    } else {
-      log.warn("Unknown storage version, ignoring", { version: (data as { version?: unknown }).version });
-      return null;
+    if (needsSave) {
+      // The accounts are usable either way; the next save writes the migrated file.
+      await saveAccounts(storage).catch((error) => {
+        log.warn("Failed to write migrated account storage; using it unsaved", { error: String(error) });
+      });
     }
 
     if (typeof storage.activeIndex !== "number" || !Number.isInteger(storage.activeIndex)) {
@@ -192,20 +344,183 @@ export async function loadAccounts(): Promise<AccountStorage | null> {
   }
 }
 
-export async function saveAccounts(storage: AccountStorage): Promise<void> {
+/**
+ * Identifies one version of the account file, or null when it does not exist. Saves replace the file by
+ * rename, so the inode changes even when two writes land within the same millisecond.
+ */
+export async function getStorageFileStamp(): Promise<string | null> {
+  try {
+    const stats = await fs.stat(getStoragePath());
+    return `${stats.ino}:${stats.mtimeMs}:${stats.size}`;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      log.warn("Failed to stat account storage", { error: String(error) });
+    }
+    return null;
+  }
+}
+
+export interface SaveAccountsOptions {
+  /**
+   * The saved account list is complete, e.g. after removing an account or a fresh login: accounts that
+   * only exist on disk are dropped instead of merged back in.
+   */
+  replaceAccounts?: boolean;
+}
+
+function isSameAccount(a: AccountMetadata, b: AccountMetadata): boolean {
+  return (!!a.id && a.id === b.id) || a.refreshToken === b.refreshToken || (!!a.email && a.email === b.email);
+}
+
+function tokenTimestamp(account: AccountMetadata): number {
+  return account.refreshTokenUpdatedAt ?? account.addedAt ?? 0;
+}
+
+function mergeRemovedAccounts(
+  a: Record<string, number> | undefined,
+  b: Record<string, number> | undefined,
+  now: number,
+): Record<string, number> | undefined {
+  const merged: Record<string, number> = {};
+  for (const [id, removedAt] of [...Object.entries(a ?? {}), ...Object.entries(b ?? {})]) {
+    if (now - removedAt <= REMOVED_ACCOUNT_TTL_MS) {
+      merged[id] = Math.max(merged[id] ?? 0, removedAt);
+    }
+  }
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+/**
+ * Whether the account is a copy from before its removal. An account added again later, even within the
+ * same millisecond, is kept.
+ */
+function isRemoved(account: AccountMetadata, removedAccounts: Record<string, number> | undefined): boolean {
+  const removedAt = account.id ? removedAccounts?.[account.id] : undefined;
+  return removedAt !== undefined && removedAt > (account.addedAt ?? 0);
+}
+
+function mergeRateLimits(a: RateLimitState | undefined, b: RateLimitState | undefined): RateLimitState | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+  const merged: RateLimitState = { ...a };
+  for (const [key, resetTime] of Object.entries(b)) {
+    merged[key] = Math.max(merged[key] ?? 0, resetTime);
+  }
+  return merged;
+}
+
+/**
+ * Combines what this process is saving with what other processes wrote since it loaded the file.
+ * Field edits come from `incoming`; rate-limit reset times take the later value, the refresh token
+ * (and its re-auth state) comes from whichever side rotated it last, and the account list is the union
+ * unless `replaceAccounts` is set. Accounts either side removed stay removed. Incoming order and active
+ * account win; the encryption header (and so the salt) is the file's.
+ */
+export function mergeAccountStorage(
+  current: AccountStorage,
+  incoming: AccountStorage,
+  options: SaveAccountsOptions = {},
+): AccountStorage {
+  const removedAccounts = mergeRemovedAccounts(current.removedAccounts, incoming.removedAccounts, Date.now());
+  // Removed accounts are not matched, so an account added again (e.g. a new login to the same email) keeps
+  // its own ID and is not dropped along with the removed one.
+  const remaining = current.accounts.filter((account) => !isRemoved(account, removedAccounts));
+
+  const accounts = incoming.accounts.map((account) => {
+    const index = remaining.findIndex((existing) => isSameAccount(existing, account));
+    if (index === -1) {
+      return account;
+    }
+    const [existing] = remaining.splice(index, 1);
+    const tokenSource = tokenTimestamp(existing!) > tokenTimestamp(account) ? existing! : account;
+    return {
+      ...account,
+      id: existing!.id ?? account.id,
+      refreshToken: tokenSource.refreshToken,
+      refreshTokenUpdatedAt: tokenSource.refreshTokenUpdatedAt,
+      projectId: tokenSource.projectId,
+      managedProjectId: tokenSource.managedProjectId,
+      needsReauth: tokenSource.needsReauth,
+      lastUsed: Math.max(existing!.lastUsed, account.lastUsed),
+      rateLimitResetTimes: mergeRateLimits(existing!.rateLimitResetTimes, account.rateLimitResetTimes),
+    };
+  });
+
+  if (!options.replaceAccounts) {
+    accounts.push(...remaining);
+  }
+
+  return {
+    ...incoming,
+    accounts: accounts.filter((account) => !isRemoved(account, removedAccounts)),
+    removedAccounts,
+    encryption: current.encryption ?? incoming.encryption,
+  };
+}
+
+export interface SaveAccountsResult {
+  /** Stamp of the file found under the lock, before writing. */
+  previousStamp: string | null;
+  /** Stamp of the file as written. */
+  stamp: string | null;
+}
+
+/**
+ * Writes the account file under a lock, merging with the file's current contents (see mergeAccountStorage).
+ * The write goes to a temporary file that is renamed into place. Throws EncryptedStorageError instead of
+ * writing when the existing file is encrypted and cannot be decrypted, so it is never replaced by a
+ * partial or plaintext pool.
+ */
+export async function saveAccounts(
+  storage: AccountStorage,
+  options: SaveAccountsOptions = {},
+): Promise<SaveAccountsResult> {
   try {
     const path = getStoragePath();
 
-    await fs.mkdir(dirname(path), { recursive: true });
+    return await withFileLock(path, async () => {
+      const previousStamp = await getStorageFileStamp();
+      const current = await readAccountStorage().catch((error) => {
+        if (error instanceof EncryptedStorageError) {
+          throw error;
+        }
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          log.warn("Cannot merge with existing account storage; overwriting it", { error: String(error) });
+        }
+        return null;
+      });
+      const combined = current ? mergeAccountStorage(current.storage, storage, options) : storage;
+      const merged = { ...combined, accounts: withAccountIds(combined.accounts) };
+
+      const secret = await resolveStorageSecret();
+      const { encryption: _encryption, ...plaintext } = merged;
+      const toWrite = secret ? await encryptAccountStorage(merged, secret) : plaintext;
 
-    const content = JSON.stringify(storage, null, 2);
-    await fs.writeFile(path, content, "utf-8");
+      await writeFileAtomic(path, JSON.stringify(toWrite, null, 2));
+      return { previousStamp, stamp: await getStorageFileStamp() };
+    });
   } catch (error) {
     log.error("Failed to save account storage", { error: String(error) });
     throw error;
   }
 }
 
+/**
+ * Deletes the account storage file, e.g. after logging out of every account.
+ */
+export async function clearAccounts(): Promise<void> {
+  try {
+    await fs.unlink(getStoragePath());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return;
+    }
+    log.error("Failed to delete account storage", { error: String(error) });
+    throw error;
+  }
+}
+
 export function migrateFromRefreshString(
   accountsData: Array<{ refreshToken: string; projectId?: string; managedProjectId?: string }>,
   emails?: Array<string | undefined>,
@@ -213,8 +528,9 @@ export function migrateFromRefreshString(
   const now = Date.now();
 
   return {
-    version: 3,
+    version: 4,
     accounts: accountsData.map((acc, index) => ({
+      id: createAccountId(acc.refreshToken),
       email: emails?.[index],
       refreshToken: acc.refreshToken,
       projectId: acc.projectId,
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "bun:test";
+
+import { awaitStreamStart, StreamStartError, superviseStream } from "./stream-supervisor";
+
+const encoder = new TextEncoder();
+
+/** A stream that sends `chunks`, then errors, ends, or stays open without data. */
+function createStream(chunks: string[], after: "end" | "error" | "stall"): ReadableStream<Uint8Array<ArrayBuffer>> {
+  let index = 0;
+  return new ReadableStream({
+    pull(controller) {
+      const chunk = chunks[index++];
+      if (chunk !== undefined) {
+        controller.enqueue(encoder.encode(chunk));
+      } else if (after === "end") {
+        controller.close();
+      } else if (after === "error") {
+        controller.error(new Error("socket hang up"));
+      } else {
+        return new Promise(() => {});
+      }
+    },
+  });
+}
+
+function sse(body: ReadableStream<Uint8Array<ArrayBuffer>>): Response {
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+describe("stream supervisor", () => {
+  it("replays what was read before the first event", async () => {
+    const response = await awaitStreamStart(sse(createStream(["\n", "data: {\"a\":1}\n\n", "data: {\"b\":2}\n\n"], "end")), 1000);
+
+    expect(await response.text()).toBe("\ndata: {\"a\":1}\n\ndata: {\"b\":2}\n\n");
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+  });
+
+  it("fails retryably when the stream errors, ends or stalls before the first event", async () => {
+    await expect(awaitStreamStart(sse(createStream([], "error")), 1000)).rejects.toBeInstanceOf(StreamStartError);
+    await expect(awaitStreamStart(sse(createStream([": ping\n"], "end")), 1000)).rejects.toThrow(/ended before/);
+    await expect(awaitStreamStart(sse(createStream([], "stall")), 20)).rejects.toThrow(/No stream data/);
+  });
+
+  it("ends a started stream with an error event when it stalls or fails", async () => {
+    const stalled = await new Response(superviseStream(createStream(["data: {\"a\":1}\n\n"], "stall"), 20)).text();
+    const failed = await new Response(superviseStream(createStream(["data: {\"a\":1}\n\n"], "error"), 1000)).text();
+
+    expect(stalled).toStartWith("data: {\"a\":1}\n\n");
+    expect(stalled).toContain("\"status\":\"DEADLINE_EXCEEDED\"");
+    expect(failed).toContain("\"message\":\"Antigravity stream failed: socket hang up\"");
+    expect(failed.trimEnd().split("\n").at(-1)).toStartWith("data: {\"error\":");
+  });
+});
@@ -0,0 +1,172 @@
+import { ENV_STREAM_IDLE_TIMEOUT } from "../constants";
+import { createLogger } from "./logger";
+
+const log = createLogger("stream-supervisor");
+
+const DEFAULT_STREAM_IDLE_TIMEOUT_MS = 90 * 1000;
+const IDLE = Symbol("idle");
+
+const encoder = new TextEncoder();
+
+/** Chunk type of fetch response bodies. */
+type Bytes = Uint8Array<ArrayBuffer>;
+type ReadResult<T> = Awaited<ReturnType<ReadableStreamDefaultReader<T>["read"]>>;
+
+/**
+ * A stream failed or stalled before forwarding any event, so the request can still be retried elsewhere.
+ */
+export class StreamStartError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StreamStartError";
+  }
+}
+
+/**
+ * How long a stream may go without bytes, from ANTIGRAVITY_STREAM_IDLE_TIMEOUT in seconds. 0 disables
+ * stall detection. Defaults to 90 seconds.
+ */
+export function getStreamIdleTimeoutMs(): number {
+  const raw = process.env[ENV_STREAM_IDLE_TIMEOUT];
+  const seconds = raw === undefined ? NaN : Number(raw);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : DEFAULT_STREAM_IDLE_TIMEOUT_MS;
+}
+
+async function readWithin<T>(
+  reader: ReadableStreamDefaultReader<T>,
+  timeoutMs: number,
+): Promise<ReadResult<T> | typeof IDLE> {
+  if (timeoutMs <= 0) {
+    return reader.read();
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const idle = new Promise<typeof IDLE>((resolve) => {
+    timer = setTimeout(() => resolve(IDLE), timeoutMs);
+  });
+  try {
+    return await Promise.race([reader.read(), idle]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Reads an SSE response until its first `data:` event arrives. Returns a response that replays what was
+ * read and continues with the rest. Throws StreamStartError when the stream errors, ends or goes idle
+ * first; nothing has reached opencode then, so the caller can retry on another endpoint or account.
+ */
+export async function awaitStreamStart(
+  response: Response,
+  idleTimeoutMs: number,
+  signal?: AbortSignal | null,
+): Promise<Response> {
+  if (!response.body) {
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const buffered: Bytes[] = [];
+  let text = "";
+
+  while (!/(^|\n)data:/.test(text)) {
+    let result: ReadResult<Bytes> | typeof IDLE;
+    try {
+      result = await readWithin(reader, idleTimeoutMs);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      throw new StreamStartError(`Stream failed before the first event: ${describeError(error)}`);
+    }
+    if (result === IDLE || result.done) {
+      reader.cancel().catch(() => {});
+      throw new StreamStartError(
+        result === IDLE
+          ? `No stream data within ${Math.round(idleTimeoutMs / 1000)}s`
+          : "Stream ended before the first event",
+      );
+    }
+    buffered.push(result.value);
+    text += decoder.decode(result.value, { stream: true });
+  }
+
+  const body = new ReadableStream<Bytes>({
+    start(controller) {
+      for (const chunk of buffered) {
+        controller.enqueue(chunk);
+      }
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * Forwards an SSE body that has started. If it errors or sends nothing for `idleTimeoutMs`, it ends with a
+ * final error event instead, so opencode shows a failed turn rather than hanging on a dead connection.
+ */
+export function superviseStream(body: ReadableStream<Bytes>, idleTimeoutMs: number): ReadableStream<Bytes> {
+  const reader = body.getReader();
+
+  const terminate = (
+    controller: ReadableStreamDefaultController<Bytes>,
+    code: number,
+    status: string,
+    message: string,
+  ): void => {
+    log.warn("Ending interrupted stream with an error event", { code, status, message });
+    const event = { error: { code, status, message } };
+    controller.enqueue(encoder.encode(`\n\ndata: ${JSON.stringify(event)}\n\n`));
+    controller.close();
+  };
+
+  return new ReadableStream<Bytes>({
+    async pull(controller) {
+      let result: ReadResult<Bytes> | typeof IDLE;
+      try {
+        result = await readWithin(reader, idleTimeoutMs);
+      } catch (error) {
+        terminate(controller, 502, "UNAVAILABLE", `Antigravity stream failed: ${describeError(error)}`);
+        return;
+      }
+      if (result === IDLE) {
+        reader.cancel().catch(() => {});
+        terminate(
+          controller,
+          504,
+          "DEADLINE_EXCEEDED",
+          `Antigravity stream stalled: no data for ${Math.round(idleTimeoutMs / 1000)}s`,
+        );
+        return;
+      }
+      if (result.done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(result.value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
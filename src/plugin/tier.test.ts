@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from "bun:test";
 import { AccountManager } from "./accounts";
 import type { ManagedAccount } from "./accounts";
+import { getFamilyRateLimitKey } from "./quota-groups";
 
 describe("AccountManager Tier Priority", () => {
   const mockAuth = {
@@ -62,7 +63,7 @@ describe("AccountManager Tier Priority", () => {
     expect(active?.tier).toBe("free");
 
     // Simulate time passing (reset limit)
-    paidAcc.rateLimitResetTimes["gemini-pro"] = Date.now() - 1000;
+    paidAcc.rateLimitResetTimes[getFamilyRateLimitKey("gemini-pro")] = Date.now() - 1000;
 
     // Should switch back to paid
     const next = manager.getCurrentOrNextForFamily("gemini-pro");
@@ -1,9 +1,13 @@
 import { beforeEach, describe, expect, it, mock } from "bun:test";
 
+import * as constants from "../constants";
 import { ANTIGRAVITY_PROVIDER_ID } from "../constants";
-import { refreshAccessToken } from "./token";
+import { refreshAccessToken, revokeRefreshToken, TokenRevokedError } from "./token";
 import type { OAuthAuthDetails, PluginClient } from "./types";
 
+// Token requests need a client secret, which is normally read from the environment.
+mock.module("../constants", () => ({ ...constants, ANTIGRAVITY_CLIENT_SECRET: "test-client-secret" }));
+
 const baseAuth: OAuthAuthDetails = {
   type: "oauth",
   refresh: "refresh-token|project-123",
@@ -67,4 +71,45 @@ describe("refreshAccessToken", () => {
     // Note: refreshAccessToken no longer saves immediately - caller handles saving
     expect(client.auth.set.mock.calls.length).toBe(0);
   });
+
+  it("throws TokenRevokedError on invalid_grant without clearing stored auth", async () => {
+    const client = createClient();
+    const fetchMock = mock(async () => {
+      return new Response(
+        JSON.stringify({ error: "invalid_grant", error_description: "Token has been expired or revoked." }),
+        { status: 400 },
+      );
+    });
+    (globalThis as { fetch: typeof fetch }).fetch = fetchMock as unknown as typeof fetch;
+
+    await expect(refreshAccessToken(baseAuth, client)).rejects.toBeInstanceOf(TokenRevokedError);
+    expect(client.auth.set.mock.calls.length).toBe(0);
+  });
+});
+
+describe("revokeRefreshToken", () => {
+  it("posts the refresh token to the revoke endpoint", async () => {
+    const fetchMock = mock(async (_url: string, _init?: RequestInit) => new Response("", { status: 200 }));
+    (globalThis as { fetch: typeof fetch }).fetch = fetchMock as unknown as typeof fetch;
+
+    const revoked = await revokeRefreshToken("refresh-token");
+
+    expect(revoked).toBe(true);
+    expect(fetchMock.mock.calls[0]?.[0]).toBe("https://oauth2.googleapis.com/revoke");
+    expect(String(fetchMock.mock.calls[0]?.[1]?.body)).toBe("token=refresh-token");
+  });
+
+  it("treats an already invalid token as revoked", async () => {
+    const fetchMock = mock(async () => new Response(JSON.stringify({ error: "invalid_token" }), { status: 400 }));
+    (globalThis as { fetch: typeof fetch }).fetch = fetchMock as unknown as typeof fetch;
+
+    expect(await revokeRefreshToken("refresh-token")).toBe(true);
+  });
+
+  it("reports other failures", async () => {
+    const fetchMock = mock(async () => new Response("", { status: 503 }));
+    (globalThis as { fetch: typeof fetch }).fetch = fetchMock as unknown as typeof fetch;
+
+    expect(await revokeRefreshToken("refresh-token")).toBe(false);
+  });
 });
@@ -1,12 +1,17 @@
 import {
   ANTIGRAVITY_CLIENT_ID,
   ANTIGRAVITY_CLIENT_SECRET,
-  ANTIGRAVITY_PROVIDER_ID
 } from "../constants";
 import { formatRefreshParts, parseRefreshParts } from "./auth";
 import { storeCachedAuth } from "./cache";
 import { invalidateProjectContextCache } from "./project";
 import { printAntigravityConsole } from "./logger";
+import {
+  GoogleCredentialsError,
+  isServiceAccountRefreshToken,
+  loadGoogleCredentials,
+  mintGoogleAccessToken,
+} from "./service-account";
 import type { OAuthAuthDetails, PluginClient, RefreshParts } from "./types";
 
 interface OAuthErrorPayload {
@@ -60,7 +65,19 @@ function parseOAuthErrorPayload(text: string | undefined): { code?: string; desc
 }
 
 /**
- * Refreshes an Antigravity OAuth access token, updates persisted credentials, and handles revocation.
+ * Raised by refreshAccessToken when Google rejects the refresh token with `invalid_grant`.
+ * Callers mark only the affected account for re-authentication.
+ */
+export class TokenRevokedError extends Error {
+  constructor(description?: string) {
+    super(`Refresh token was revoked${description ? `: ${description}` : ""}`);
+    this.name = "TokenRevokedError";
+  }
+}
+
+/**
+ * Refreshes an Antigravity OAuth access token and updates the auth cache.
+ * Throws TokenRevokedError when the refresh token has been revoked.
  */
 export async function refreshAccessToken(
   auth: OAuthAuthDetails,
@@ -70,6 +87,9 @@ export async function refreshAccessToken(
   if (!parts.refreshToken) {
     return undefined;
   }
+  if (isServiceAccountRefreshToken(parts.refreshToken)) {
+    return refreshServiceAccountToken(auth, parts.refreshToken);
+  }
   if (!ANTIGRAVITY_CLIENT_SECRET) {
     printAntigravityConsole(
       "error",
@@ -111,27 +131,10 @@ export async function refreshAccessToken(
       if (code === "invalid_grant") {
         printAntigravityConsole(
           "warn",
-          "[OAuth] Google revoked the stored refresh token. Run `opencode auth login` and reauthenticate the Google provider.",
+          "[OAuth] Google revoked the stored refresh token for this account. Re-authenticate it with `opencode auth login`.",
         );
         invalidateProjectContextCache(auth.refresh);
-        try {
-          const clearedAuth: OAuthAuthDetails = {
-            type: "oauth",
-            refresh: formatRefreshParts({
-              refreshToken: "",
-              projectId: parts.projectId,
-              managedProjectId: parts.managedProjectId,
-            }),
-            access: "",
-            expires: 0,
-          };
-          await client.auth.set({
-            path: { id: ANTIGRAVITY_PROVIDER_ID },
-            body: clearedAuth,
-          });
-        } catch (storeError) {
-          printAntigravityConsole("error", "Failed to clear stored Antigravity OAuth credentials", storeError);
-        }
+        throw new TokenRevokedError(description);
       }
 
       return undefined;
@@ -166,6 +169,9 @@ export async function refreshAccessToken(
 
     return updatedAuth;
   } catch (error) {
+    if (error instanceof TokenRevokedError) {
+      throw error;
+    }
     printAntigravityConsole(
       "error",
       "Failed to refresh Antigravity access token due to an unexpected error",
@@ -174,3 +180,65 @@ export async function refreshAccessToken(
     return undefined;
   }
 }
+
+/**
+ * Mints a fresh access token for service-account / ADC credentials. The stored refresh string is unchanged.
+ */
+async function refreshServiceAccountToken(
+  auth: OAuthAuthDetails,
+  refreshToken: string,
+): Promise<OAuthAuthDetails | undefined> {
+  try {
+    const credentials = await loadGoogleCredentials(refreshToken);
+    const { access, expires } = await mintGoogleAccessToken(credentials);
+    const updatedAuth: OAuthAuthDetails = { ...auth, access, expires };
+    storeCachedAuth(updatedAuth);
+    return updatedAuth;
+  } catch (error) {
+    if (error instanceof GoogleCredentialsError && error.code === "invalid_grant") {
+      printAntigravityConsole("warn", `[OAuth] ${error.message}`);
+      throw new TokenRevokedError(error.message);
+    }
+    printAntigravityConsole("error", "Failed to mint access token from Google credentials", error);
+    return undefined;
+  }
+}
+
+/**
+ * Revokes a refresh token with Google. Tokens Google already considers invalid count as revoked.
+ */
+export async function revokeRefreshToken(refreshToken: string): Promise<boolean> {
+  // Service-account keys are not revocable tokens; delete the key in Cloud IAM instead.
+  if (!refreshToken || isServiceAccountRefreshToken(refreshToken)) {
+    return true;
+  }
+
+  try {
+    const response = await fetch("https://oauth2.googleapis.com/revoke", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({ token: refreshToken }),
+    });
+
+    if (response.ok) {
+      return true;
+    }
+
+    const errorText = await response.text().catch(() => undefined);
+    const { code, description } = parseOAuthErrorPayload(errorText);
+    if (code === "invalid_token") {
+      return true;
+    }
+
+    printAntigravityConsole(
+      "warn",
+      `[OAuth] Token revocation failed (${response.status} ${response.statusText})${code || description ? ` - ${[code, description].filter(Boolean).join(": ")}` : ""}`,
+    );
+    return false;
+  } catch (error) {
+    printAntigravityConsole("error", "Failed to revoke Antigravity refresh token due to an unexpected error", error);
+    return false;
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "bun:test";
+
+import { createSseTransformStream } from "./request";
+import type { GeminiUsageMetadata } from "./request-helpers";
+import {
+  addUsage,
+  createUsageLedger,
+  formatUsageReport,
+  mergeUsageLedgers,
+  pruneUsageLedger,
+} from "./usage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2025-06-10T12:00:00Z");
+
+describe("usage ledger", () => {
+  it("accumulates counters per day, account and model", () => {
+    const ledger = createUsageLedger();
+    addUsage(ledger, "2025-06-10", "a@example.com", "gemini-3-pro-high", { requests: 1, rateLimited: 0 });
+    addUsage(ledger, "2025-06-10", "a@example.com", "gemini-3-pro-high", {
+      inputTokens: 1200,
+      outputTokens: 300,
+      cachedTokens: 1000,
+      thinkingTokens: undefined,
+    });
+    addUsage(ledger, "2025-06-10", "a@example.com", "gemini-3-pro-high", { requests: 1, rateLimited: 1 });
+
+    expect(ledger.days["2025-06-10"]?.["a@example.com"]?.["gemini-3-pro-high"]).toEqual({
+      requests: 2,
+      inputTokens: 1200,
+      outputTokens: 300,
+      cachedTokens: 1000,
+      thinkingTokens: 0,
+      rateLimited: 1,
+    });
+  });
+
+  it("adds pending deltas onto counts written by other processes", () => {
+    const onDisk = createUsageLedger();
+    addUsage(onDisk, "2025-06-10", "a@example.com", "claude-sonnet-4-5", { requests: 5 });
+    const pending = createUsageLedger();
+    addUsage(pending, "2025-06-10", "a@example.com", "claude-sonnet-4-5", { requests: 2 });
+    addUsage(pending, "2025-06-10", "b@example.com", "claude-sonnet-4-5", { requests: 1 });
+
+    mergeUsageLedgers(onDisk, pending);
+
+    expect(onDisk.days["2025-06-10"]?.["a@example.com"]?.["claude-sonnet-4-5"]?.requests).toBe(7);
+    expect(onDisk.days["2025-06-10"]?.["b@example.com"]?.["claude-sonnet-4-5"]?.requests).toBe(1);
+  });
+
+  it("drops days outside the retention window", () => {
+    const ledger = createUsageLedger();
+    addUsage(ledger, "2025-06-10", "a@example.com", "gemini-2.5-flash", { requests: 1 });
+    addUsage(ledger, "2025-06-04", "a@example.com", "gemini-2.5-flash", { requests: 1 });
+    addUsage(ledger, "2025-06-03", "a@example.com", "gemini-2.5-flash", { requests: 1 });
+
+    pruneUsageLedger(ledger, 7, NOW);
+
+    expect(Object.keys(ledger.days).sort()).toEqual(["2025-06-04", "2025-06-10"]);
+  });
+
+  it("renders recent days newest first", () => {
+    const ledger = createUsageLedger();
+    addUsage(ledger, "2025-06-09", "a@example.com", "gemini-2.5-flash", { requests: 1, inputTokens: 10 });
+    addUsage(ledger, "2025-06-10", "a@example.com", "gemini-2.5-flash", {
+      requests: 3,
+      inputTokens: 12_500,
+      outputTokens: 800,
+      rateLimited: 2,
+    });
+
+    const report = formatUsageReport(ledger, 7, NOW);
+    expect(report.indexOf("2025-06-10:")).toBeLessThan(report.indexOf("2025-06-09:"));
+    expect(report).toContain("gemini-2.5-flash: 3 req, in 12.5k (cached 0), out 800, thinking 0, 2x 429");
+    expect(formatUsageReport(ledger, 1, NOW + DAY_MS * 5)).toBe("No Antigravity usage recorded in the last 1 day(s).");
+  });
+});
+
+describe("streaming usage", () => {
+  it("reports the final usageMetadata once the stream ends", async () => {
+    const reported: GeminiUsageMetadata[] = [];
+    const chunk = (usage: Record<string, number>) =>
+      `data: ${JSON.stringify({ response: { candidates: [], usageMetadata: usage } })}\n\n`;
+
+    const stream = new ReadableStream<string>({
+      start(controller) {
+        controller.enqueue(chunk({ promptTokenCount: 100, candidatesTokenCount: 1 }));
+        controller.enqueue(chunk({ promptTokenCount: 100, candidatesTokenCount: 40, thoughtsTokenCount: 25 }));
+        controller.close();
+      },
+    }).pipeThrough(createSseTransformStream(undefined, undefined, undefined, (usage) => reported.push(usage)));
+
+    await new Response(stream.pipeThrough(new TextEncoderStream())).text();
+
+    expect(reported).toHaveLength(1);
+    expect(reported[0]).toMatchObject({ promptTokenCount: 100, candidatesTokenCount: 40, thoughtsTokenCount: 25 });
+  });
+});
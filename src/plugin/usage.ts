@@ -0,0 +1,225 @@
+import { promises as fs } from "node:fs";
+import { dirname, join } from "node:path";
+import { ENV_USAGE_RETENTION_DAYS } from "../constants";
+import type { ManagedAccount } from "./accounts";
+import { withFileLock, writeFileAtomic } from "./file-lock";
+import { createLogger } from "./logger";
+import type { GeminiUsageMetadata } from "./request-helpers";
+import { getStoragePath } from "./storage";
+
+const log = createLogger("usage");
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+export interface UsageCounters {
+  requests: number;
+  /** Prompt tokens, including the cached ones. */
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  thinkingTokens: number;
+  rateLimited: number;
+}
+
+/**
+ * Usage per UTC day (`YYYY-MM-DD`), then per account, then per backend model.
+ */
+export interface UsageLedger {
+  version: 1;
+  days: Record<string, Record<string, Record<string, UsageCounters>>>;
+}
+
+// Changes not yet written. Kept as deltas and added to the file on flush so that several
+// opencode processes sharing the file do not overwrite each other's counts.
+let pending: UsageLedger = createUsageLedger();
+let hasPending = false;
+let activeFlush: Promise<void> | null = null;
+
+export function getUsagePath(): string {
+  return join(dirname(getStoragePath()), "antigravity-usage.json");
+}
+
+export function createUsageLedger(): UsageLedger {
+  return { version: 1, days: {} };
+}
+
+function emptyCounters(): UsageCounters {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, cachedTokens: 0, thinkingTokens: 0, rateLimited: 0 };
+}
+
+/**
+ * Ledger key for an account: its email, or its ID.
+ */
+export function getUsageAccountKey(account: ManagedAccount): string {
+  return account.email || `account-${account.id}`;
+}
+
+export function getUsageDay(now: number = Date.now()): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+export function addUsage(
+  ledger: UsageLedger,
+  day: string,
+  accountKey: string,
+  model: string,
+  delta: Partial<UsageCounters>,
+): void {
+  const accounts = (ledger.days[day] ??= {});
+  const models = (accounts[accountKey] ??= {});
+  const counters = (models[model] ??= emptyCounters());
+  for (const [field, value] of Object.entries(delta) as Array<[keyof UsageCounters, number | undefined]>) {
+    if (typeof value === "number" && Number.isFinite(value)) {
+      counters[field] += value;
+    }
+  }
+}
+
+export function mergeUsageLedgers(target: UsageLedger, source: UsageLedger): void {
+  for (const [day, accounts] of Object.entries(source.days)) {
+    for (const [accountKey, models] of Object.entries(accounts)) {
+      for (const [model, counters] of Object.entries(models)) {
+        addUsage(target, day, accountKey, model, counters);
+      }
+    }
+  }
+}
+
+/**
+ * Drops days older than the retention window (ANTIGRAVITY_USAGE_RETENTION_DAYS, default 30).
+ */
+export function pruneUsageLedger(ledger: UsageLedger, retentionDays: number, now: number = Date.now()): void {
+  const oldestKept = getUsageDay(now - (retentionDays - 1) * 24 * 60 * 60 * 1000);
+  for (const day of Object.keys(ledger.days)) {
+    if (day < oldestKept) {
+      delete ledger.days[day];
+    }
+  }
+}
+
+function getRetentionDays(): number {
+  const parsed = Number.parseInt(process.env[ENV_USAGE_RETENTION_DAYS] ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Counts one request sent on behalf of an account, and whether it was answered with a 429.
+ */
+export function recordRequest(account: ManagedAccount, model: string, rateLimited = false): void {
+  record(account, model, { requests: 1, rateLimited: rateLimited ? 1 : 0 });
+}
+
+/**
+ * Adds the token counts from a response's usageMetadata.
+ */
+export function recordTokenUsage(account: ManagedAccount, model: string, usage: GeminiUsageMetadata): void {
+  record(account, model, {
+    inputTokens: usage.promptTokenCount,
+    outputTokens: usage.candidatesTokenCount,
+    cachedTokens: usage.cachedContentTokenCount,
+    thinkingTokens: usage.thoughtsTokenCount,
+  });
+}
+
+function record(account: ManagedAccount, model: string, delta: Partial<UsageCounters>): void {
+  addUsage(pending, getUsageDay(), getUsageAccountKey(account), model, delta);
+  hasPending = true;
+  void flushUsageLedger();
+}
+
+async function readUsageFile(): Promise<UsageLedger> {
+  try {
+    const data = JSON.parse(await fs.readFile(getUsagePath(), "utf-8")) as Partial<UsageLedger>;
+    if (data.version === 1 && data.days && typeof data.days === "object") {
+      return data as UsageLedger;
+    }
+    log.warn("Ignoring usage ledger with unknown format", { version: data.version });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      log.warn("Failed to read usage ledger", { error: String(error) });
+    }
+  }
+  return createUsageLedger();
+}
+
+/**
+ * Writes pending usage to disk. Concurrent calls share one write; changes recorded during a write are
+ * picked up by a follow-up write.
+ */
+export function flushUsageLedger(): Promise<void> {
+  if (activeFlush) {
+    return activeFlush;
+  }
+  if (!hasPending) {
+    return Promise.resolve();
+  }
+
+  activeFlush = (async () => {
+    while (hasPending) {
+      const batch = pending;
+      pending = createUsageLedger();
+      hasPending = false;
+      try {
+        await withFileLock(getUsagePath(), async () => {
+          const ledger = await readUsageFile();
+          mergeUsageLedgers(ledger, batch);
+          pruneUsageLedger(ledger, getRetentionDays());
+          await writeFileAtomic(getUsagePath(), JSON.stringify(ledger, null, 2));
+        });
+      } catch (error) {
+        log.warn("Failed to write usage ledger", { error: String(error) });
+        mergeUsageLedgers(pending, batch);
+        hasPending = true;
+        break;
+      }
+    }
+  })().finally(() => {
+    activeFlush = null;
+  });
+  return activeFlush;
+}
+
+/**
+ * The persisted ledger plus anything not yet written.
+ */
+export async function loadUsageLedger(): Promise<UsageLedger> {
+  await flushUsageLedger();
+  const ledger = await readUsageFile();
+  mergeUsageLedgers(ledger, pending);
+  pruneUsageLedger(ledger, getRetentionDays());
+  return ledger;
+}
+
+function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
+
+/**
+ * Renders the last `days` days of the ledger, newest first.
+ */
+export function formatUsageReport(ledger: UsageLedger, days: number = 7, now: number = Date.now()): string {
+  const oldestShown = getUsageDay(now - (Math.max(1, days) - 1) * 24 * 60 * 60 * 1000);
+  const shownDays = Object.keys(ledger.days)
+    .filter((day) => day >= oldestShown)
+    .sort()
+    .reverse();
+  if (shownDays.length === 0) {
+    return `No Antigravity usage recorded in the last ${days} day(s).`;
+  }
+
+  const lines: string[] = [];
+  for (const day of shownDays) {
+    lines.push(`${day}:`);
+    for (const [accountKey, models] of Object.entries(ledger.days[day]!).sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`  ${accountKey}`);
+      for (const [model, c] of Object.entries(models).sort(([a], [b]) => a.localeCompare(b))) {
+        lines.push(
+          `    ${model}: ${c.requests} req, in ${formatTokens(c.inputTokens)} (cached ${formatTokens(c.cachedTokens)}), out ${formatTokens(c.outputTokens)}, thinking ${formatTokens(c.thinkingTokens)}${c.rateLimited > 0 ? `, ${c.rateLimited}x 429` : ""}`,
+        );
+      }
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from "bun:test";
+
+import { ENV_FAIL_FAST, ENV_MAX_WAIT } from "../constants";
+import { AccountManager } from "./accounts";
+import type { OAuthAuthDetails } from "./types";
+import { createRateLimitedResponse, getMaxWaitMs, parseMaxWaitConfig } from "./wait-limits";
+
+describe("wait limits", () => {
+  afterEach(() => {
+    delete process.env[ENV_MAX_WAIT];
+    delete process.env[ENV_FAIL_FAST];
+  });
+
+  it("parses a single limit or per-family limits", () => {
+    expect(parseMaxWaitConfig("120")).toEqual({ default: 120_000 });
+    expect(parseMaxWaitConfig("claude=900, default=60,gemini-pro=x,bogus=5")).toEqual({
+      claude: 900_000,
+      default: 60_000,
+    });
+    expect(parseMaxWaitConfig(undefined)).toEqual({});
+  });
+
+  it("resolves the limit per family, with fail-fast overriding it", () => {
+    expect(getMaxWaitMs("claude")).toBe(10 * 60 * 1000);
+
+    process.env[ENV_MAX_WAIT] = "claude=900,default=30";
+    expect(getMaxWaitMs("claude")).toBe(900_000);
+    expect(getMaxWaitMs("gemini-flash")).toBe(30_000);
+
+    process.env[ENV_FAIL_FAST] = "1";
+    expect(getMaxWaitMs("claude")).toBe(0);
+  });
+
+  it("describes every account's reset time in the synthesized 429", async () => {
+    const auth: OAuthAuthDetails = {
+      type: "oauth",
+      refresh: "refresh_1|project_1||refresh_2|project_2||refresh_3|project_3",
+      access: "",
+      expires: 0,
+    };
+    const manager = new AccountManager(auth);
+    const [first, second, third] = manager.getAccounts();
+    manager.markRateLimited(first!, 120_000, "claude");
+    manager.markRateLimited(second!, 30_000, "claude", "claude-sonnet-4-5");
+    manager.setAccountDisabled(2, true);
+    manager.markRateLimited(third!, 5_000, "claude");
+
+    const response = createRateLimitedResponse(manager, {
+      family: "claude",
+      model: "claude-sonnet-4-5",
+      waitedMs: 60_000,
+      maxWaitMs: 60_000,
+    });
+    const body = (await response.json()) as any;
+    const info = body.error.details[0];
+
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get("Retry-After"))).toBeGreaterThanOrEqual(29);
+    expect(Number(response.headers.get("Retry-After"))).toBeLessThanOrEqual(30);
+    expect(body.error.status).toBe("RESOURCE_EXHAUSTED");
+    expect(info.family).toBe("claude");
+    expect(info.waitedMs).toBe(60_000);
+    expect(Date.parse(info.earliestResetAt)).toBe(second!.rateLimitResetTimes[info.rateLimitKey]!);
+    expect(info.accounts.map((account: any) => [account.id, account.unavailable])).toEqual([
+      [first!.id, undefined],
+      [second!.id, undefined],
+      [third!.id, "disabled"],
+    ]);
+    expect(info.accounts.every((account: any) => typeof account.resetAt === "string")).toBe(true);
+  });
+});
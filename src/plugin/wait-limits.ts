@@ -0,0 +1,132 @@
+import { ENV_FAIL_FAST, ENV_MAX_WAIT } from "../constants";
+import type { AccountManager, ModelFamily } from "./accounts";
+import { createLogger } from "./logger";
+import { getRateLimitKey } from "./quota-groups";
+import { isAccountInGroups } from "./workspace-groups";
+
+const log = createLogger("wait-limits");
+
+const DEFAULT_MAX_WAIT_MS = 10 * 60 * 1000;
+const FAMILIES: ReadonlyArray<ModelFamily | "default"> = ["default", "claude", "gemini-flash", "gemini-pro"];
+
+/**
+ * Maximum total wait per request in ms, per model family; families without an entry use `default`.
+ */
+export type MaxWaitConfig = Partial<Record<ModelFamily | "default", number>>;
+
+/**
+ * Parses ANTIGRAVITY_MAX_WAIT: seconds a request may spend waiting on rate limits, either one value
+ * (`300`) or comma-separated `family=seconds` pairs with an optional default (`claude=900,default=120`).
+ * Invalid entries are logged and ignored.
+ */
+export function parseMaxWaitConfig(raw: string | undefined): MaxWaitConfig {
+  const config: MaxWaitConfig = {};
+  if (!raw?.trim()) {
+    return config;
+  }
+
+  for (const entry of raw.split(",")) {
+    if (!entry.trim()) continue;
+    const [left, right] = entry.split("=").map((part) => part.trim().toLowerCase());
+    const key = (right === undefined ? "default" : left) as ModelFamily | "default";
+    const seconds = Number(right ?? left);
+    if (!FAMILIES.includes(key) || !Number.isFinite(seconds) || seconds < 0) {
+      log.warn("Ignoring invalid max wait entry", { entry });
+      continue;
+    }
+    config[key] = seconds * 1000;
+  }
+  return config;
+}
+
+let cachedEnvConfig: { raw: string | undefined; config: MaxWaitConfig } | undefined;
+
+/**
+ * Whether requests should fail right away instead of waiting for a rate limit (ANTIGRAVITY_FAIL_FAST=1),
+ * e.g. for scripted `opencode run` usage.
+ */
+export function isFailFast(): boolean {
+  const value = process.env[ENV_FAIL_FAST];
+  return value === "1" || value === "true";
+}
+
+/**
+ * How long one request for `family` may wait on rate limits in total: 0 in fail-fast mode, else
+ * ANTIGRAVITY_MAX_WAIT, else 10 minutes.
+ */
+export function getMaxWaitMs(family: ModelFamily): number {
+  if (isFailFast()) {
+    return 0;
+  }
+  const raw = process.env[ENV_MAX_WAIT];
+  if (!cachedEnvConfig || cachedEnvConfig.raw !== raw) {
+    cachedEnvConfig = { raw, config: parseMaxWaitConfig(raw) };
+  }
+  return cachedEnvConfig.config[family] ?? cachedEnvConfig.config.default ?? DEFAULT_MAX_WAIT_MS;
+}
+
+export interface RateLimitedDetails {
+  family: ModelFamily;
+  model?: string;
+  groups?: readonly string[];
+  waitedMs: number;
+  maxWaitMs: number;
+}
+
+/**
+ * Builds the 429 returned once a request's wait budget is spent. The body follows Google's error shape,
+ * with the reset time of every account in the details, so opencode shows a real error instead of hanging.
+ */
+export function createRateLimitedResponse(manager: AccountManager, details: RateLimitedDetails): Response {
+  const { family, model, groups, waitedMs, maxWaitMs } = details;
+  const now = Date.now();
+  const rateLimitKey = getRateLimitKey(family, model);
+
+  const accounts = manager
+    .getAccounts()
+    .filter((account) => isAccountInGroups(account, groups))
+    .map((account) => ({ account, resetAt: manager.getRateLimitResetTime(account, family, model) }));
+  const resetTimes = accounts
+    .filter(({ account, resetAt }) => !account.disabled && !account.needsReauth && resetAt > now)
+    .map(({ resetAt }) => resetAt);
+  const earliestResetAt = resetTimes.length > 0 ? Math.min(...resetTimes) : undefined;
+  const retryAfterSec = earliestResetAt ? Math.ceil((earliestResetAt - now) / 1000) : undefined;
+
+  const resetHint = retryAfterSec ? `; the first resets in ${retryAfterSec}s` : "";
+  const message =
+    maxWaitMs === 0
+      ? `All Antigravity accounts are rate-limited for ${rateLimitKey}${resetHint}.`
+      : `All Antigravity accounts are still rate-limited for ${rateLimitKey} after waiting ` +
+        `${Math.round(waitedMs / 1000)}s (limit ${Math.round(maxWaitMs / 1000)}s)${resetHint}.`;
+
+  const body = {
+    error: {
+      code: 429,
+      status: "RESOURCE_EXHAUSTED",
+      message,
+      details: [
+        {
+          "@type": "type.googleapis.com/opencode.antigravity.RateLimitInfo",
+          family,
+          model,
+          rateLimitKey,
+          earliestResetAt: earliestResetAt ? new Date(earliestResetAt).toISOString() : undefined,
+          waitedMs,
+          maxWaitMs,
+          accounts: accounts.map(({ account, resetAt }) => ({
+            id: account.id,
+            email: account.email,
+            unavailable: account.disabled ? "disabled" : account.needsReauth ? "needs-reauth" : undefined,
+            resetAt: resetAt > now ? new Date(resetAt).toISOString() : undefined,
+          })),
+        },
+      ],
+    },
+  };
+
+  const headers = new Headers({ "Content-Type": "application/json" });
+  if (retryAfterSec) {
+    headers.set("Retry-After", String(retryAfterSec));
+  }
+  return new Response(JSON.stringify(body), { status: 429, statusText: "Too Many Requests", headers });
+}
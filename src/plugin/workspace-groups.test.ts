@@ -0,0 +1,64 @@
+import { describe, expect, it } from "bun:test";
+import { homedir } from "node:os";
+
+import { AccountManager } from "./accounts";
+import type { OAuthAuthDetails } from "./types";
+import { assertWorkspaceHasAccounts, parseWorkspaceGroups, resolveAllowedGroups } from "./workspace-groups";
+
+function createManager(): AccountManager {
+  const auth: OAuthAuthDetails = {
+    type: "oauth",
+    refresh: "refresh_1|project_1||refresh_2|project_2||refresh_3|project_3",
+    access: "",
+    expires: 0,
+  };
+  const manager = new AccountManager(auth);
+  manager.setAccountGroups(0, ["personal"]);
+  manager.setAccountGroups(1, ["work"]);
+  manager.setAccountGroups(2, ["work", "oss"]);
+  return manager;
+}
+
+describe("workspace groups", () => {
+  it("parses rules and skips malformed entries", () => {
+    expect(parseWorkspaceGroups("~/work/**=work; /srv/acme/ = work, shared ;broken;=x")).toEqual([
+      { pattern: `${homedir()}/work/**`, groups: ["work"] },
+      { pattern: "/srv/acme", groups: ["work", "shared"] },
+    ]);
+  });
+
+  it("matches paths below a directory and globs, first rule wins", () => {
+    const rules = parseWorkspaceGroups("/srv/acme/oss=oss;/srv/acme=work;/home/*/play/**=personal");
+
+    expect(resolveAllowedGroups("/srv/acme", rules)).toEqual(["work"]);
+    expect(resolveAllowedGroups("/srv/acme/api", rules)).toEqual(["work"]);
+    expect(resolveAllowedGroups("/srv/acme/oss/lib", rules)).toEqual(["oss"]);
+    expect(resolveAllowedGroups("/srv/acme-other", rules)).toBeUndefined();
+    expect(resolveAllowedGroups("/home/me/play/game", rules)).toEqual(["personal"]);
+    expect(resolveAllowedGroups("C:\\srv\\acme", parseWorkspaceGroups("C:/srv/acme=work"))).toEqual(["work"]);
+  });
+
+  it("only selects accounts in the allowed groups", () => {
+    const manager = createManager();
+    const [personal, work, shared] = manager.getAccounts();
+
+    expect(manager.getCurrentOrNextForFamily("claude", undefined, ["work"])).toBe(work!);
+    manager.markRateLimited(work!, 60_000, "claude");
+    expect(manager.getCurrentOrNextForFamily("claude", undefined, ["work"])).toBe(shared!);
+    manager.markRateLimited(shared!, 60_000, "claude");
+
+    expect(manager.getCurrentOrNextForFamily("claude", undefined, ["work"])).toBeNull();
+    expect(manager.getMinWaitTimeForFamily("claude", undefined, ["work"])).toBeGreaterThan(0);
+    expect(manager.getCurrentOrNextForFamily("claude")).toBe(personal!);
+  });
+
+  it("fails instead of falling back when no allowed account is usable", () => {
+    const manager = createManager();
+    manager.setAccountDisabled(1, true);
+    manager.setAccountDisabled(2, true);
+
+    expect(() => assertWorkspaceHasAccounts(manager, ["work"], "/srv/acme")).toThrow(/group work.*\/srv\/acme/);
+    expect(() => assertWorkspaceHasAccounts(manager, ["personal"], "/home/me")).not.toThrow();
+    expect(() => assertWorkspaceHasAccounts(manager, undefined, "/tmp")).not.toThrow();
+  });
+});
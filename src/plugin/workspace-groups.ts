@@ -0,0 +1,125 @@
+import { homedir } from "node:os";
+import { ENV_WORKSPACE_GROUPS } from "../constants";
+import type { AccountManager, ManagedAccount } from "./accounts";
+import { createLogger } from "./logger";
+
+const log = createLogger("workspace-groups");
+
+export interface WorkspaceGroupRule {
+  /** Workspace path or glob, with `~` expanded and `/` separators. */
+  pattern: string;
+  groups: string[];
+}
+
+function normalizePath(path: string): string {
+  const expanded = path === "~" || path.startsWith("~/") ? homedir() + path.slice(1) : path;
+  const normalized = expanded.replace(/\\/g, "/");
+  return normalized.length > 1 ? normalized.replace(/\/+$/, "") : normalized;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Parses ANTIGRAVITY_WORKSPACE_GROUPS: semicolon-separated `path=group,group` entries, e.g.
+ * `~/work/**=work;~/src/acme-monorepo=work,shared`. A plain path matches the directory and everything
+ * below it; `*`, `**` and `?` make it a glob. Malformed entries are logged and ignored.
+ */
+export function parseWorkspaceGroups(raw: string | undefined): WorkspaceGroupRule[] {
+  const rules: WorkspaceGroupRule[] = [];
+  if (!raw?.trim()) {
+    return rules;
+  }
+
+  for (const entry of raw.split(";")) {
+    if (!entry.trim()) continue;
+    const separator = entry.lastIndexOf("=");
+    const pattern = separator === -1 ? "" : entry.slice(0, separator).trim();
+    const groups = entry
+      .slice(separator + 1)
+      .split(",")
+      .map((group) => group.trim())
+      .filter(Boolean);
+    if (!pattern || groups.length === 0) {
+      log.warn("Ignoring invalid workspace group entry", { entry });
+      continue;
+    }
+    rules.push({ pattern: normalizePath(pattern), groups });
+  }
+  return rules;
+}
+
+let cachedEnvRules: { raw: string | undefined; rules: WorkspaceGroupRule[] } | undefined;
+
+/**
+ * Workspace rules from the environment, parsed once per distinct value.
+ */
+export function getWorkspaceGroupRules(): WorkspaceGroupRule[] {
+  const raw = process.env[ENV_WORKSPACE_GROUPS];
+  if (!cachedEnvRules || cachedEnvRules.raw !== raw) {
+    cachedEnvRules = { raw, rules: parseWorkspaceGroups(raw) };
+  }
+  return cachedEnvRules.rules;
+}
+
+function matchesWorkspace(pattern: string, directory: string): boolean {
+  if (/[*?]/.test(pattern)) {
+    return globToRegExp(pattern).test(directory);
+  }
+  return directory === pattern || directory.startsWith(pattern.endsWith("/") ? pattern : `${pattern}/`);
+}
+
+/**
+ * Groups the workspace may use, from the first matching rule. Undefined means any account may be used.
+ */
+export function resolveAllowedGroups(
+  directory: string | undefined,
+  rules: WorkspaceGroupRule[] = getWorkspaceGroupRules(),
+): string[] | undefined {
+  if (!directory || rules.length === 0) {
+    return undefined;
+  }
+  const normalized = normalizePath(directory);
+  return rules.find((rule) => matchesWorkspace(rule.pattern, normalized))?.groups;
+}
+
+/**
+ * Whether the account carries one of `groups`. Without a restriction every account qualifies.
+ */
+export function isAccountInGroups(account: ManagedAccount, groups: readonly string[] | undefined): boolean {
+  return !groups || (account.groups ?? []).some((group) => groups.includes(group));
+}
+
+/**
+ * Throws when the workspace is restricted to groups that have no usable account. Requests for such a
+ * workspace must never fall back to accounts outside the groups.
+ */
+export function assertWorkspaceHasAccounts(
+  manager: AccountManager,
+  groups: readonly string[] | undefined,
+  directory: string | undefined,
+): void {
+  if (!groups || manager.hasUsableAccounts(groups)) {
+    return;
+  }
+  throw new Error(
+    `No usable Antigravity account in group ${groups.join(" or ")}, which is required for ${directory}. ` +
+      `Assign the group with the antigravity_accounts tool (action "groups") or adjust ${ENV_WORKSPACE_GROUPS}.`,
+  );
+}